@@ -13,7 +13,7 @@ describe('datetime alias support', () => {
 
   it('should support datetime with validations', async () => {
     const { schema, definition } = await parser.parse('Z.datetime().describe("A datetime field")');
-    expect(schema).toBe('z.date().describe("A datetime field")');
+    expect(schema).toBe('z.date().meta({ description: "A datetime field" })');
     expect(definition.type).toBe('date');
     expect(definition.description).toBe('A datetime field');
     expect(() => parseZodString(schema)).not.toThrow();
@@ -39,7 +39,7 @@ describe('datetime alias support', () => {
 
   it('should support datetime with other date methods', async () => {
     const { schema } = await parser.parse('Z.datetime().describe("Created at").optional()');
-    expect(schema).toBe('z.date().describe("Created at").optional()');
+    expect(schema).toBe('z.date().meta({ description: "Created at" }).optional()');
     expect(() => parseZodString(schema)).not.toThrow();
   });
 });
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { ZontaxParser, ZontaxMergeError, ZontaxDefinition, diff, formatDiffReport } from './index';
+
+describe('diff', () => {
+  const parser = new ZontaxParser({ mode: 'loose' });
+  const definitionOf = async (source: string) => (await parser.parse(source)).definition;
+  const changesOf = async (before: string, after: string) =>
+    diff(await definitionOf(before), await definitionOf(after)).changes.map(({ path, kind, severity, key }) => ({
+      path: path.join('.'),
+      kind,
+      severity,
+      ...(key && { key }),
+    }));
+
+  it('should report no changes for equal definitions', async () => {
+    const source = 'Z.object({ name: Z.string().min(1), tags: Z.array(Z.string()) })';
+    expect(diff(await definitionOf(source), await definitionOf(source))).toEqual({
+      breaking: false,
+      summary: { breaking: 0, 'non-breaking': 0, metadata: 0 },
+      changes: [],
+    });
+  });
+
+  it('should classify added and removed fields', async () => {
+    expect(
+      await changesOf(
+        'Z.object({ id: Z.string(), legacy: Z.string() })',
+        'Z.object({ id: Z.string(), email: Z.string(), nickname: Z.string().optional(), role: Z.string().default("user") })',
+      ),
+    ).toEqual([
+      { path: 'legacy', kind: 'field-removed', severity: 'breaking' },
+      { path: 'email', kind: 'field-added', severity: 'breaking' },
+      { path: 'nickname', kind: 'field-added', severity: 'non-breaking' },
+      { path: 'role', kind: 'field-added', severity: 'non-breaking' },
+    ]);
+  });
+
+  it('should classify tightened and loosened validations', async () => {
+    expect(
+      await changesOf(
+        'Z.object({ name: Z.string().min(2).max(50).email(), age: Z.number().max(120) })',
+        'Z.object({ name: Z.string().min(3).max(100).uuid(), age: Z.number().max(100).int() })',
+      ),
+    ).toEqual([
+      { path: 'name', kind: 'validation-removed', severity: 'non-breaking', key: 'validations.email' },
+      { path: 'name', kind: 'validation-loosened', severity: 'non-breaking', key: 'validations.max' },
+      { path: 'name', kind: 'validation-tightened', severity: 'breaking', key: 'validations.min' },
+      { path: 'name', kind: 'validation-added', severity: 'breaking', key: 'validations.uuid' },
+      { path: 'age', kind: 'validation-tightened', severity: 'breaking', key: 'validations.max' },
+      { path: 'age', kind: 'validation-added', severity: 'breaking', key: 'validations.int' },
+    ]);
+  });
+
+  it('should compare bounds that switch between inclusive and exclusive', async () => {
+    const result = diff(
+      await definitionOf('Z.object({ a: Z.number().min(1), b: Z.number().gt(1), c: Z.number().max(10), d: Z.number().lt(10) })'),
+      await definitionOf('Z.object({ a: Z.number().gt(1), b: Z.number().min(1), c: Z.number().lt(12), d: Z.number().max(8) })'),
+    );
+    expect(result.changes.map(({ path, kind, severity, key, message }) => ({ path: path.join('.'), kind, severity, key, message }))).toEqual([
+      { path: 'a', kind: 'validation-tightened', severity: 'breaking', key: 'validations.min', message: "Validation 'min' at 'a' was tightened from 'min' 1 to 'gt' 1." },
+      { path: 'b', kind: 'validation-loosened', severity: 'non-breaking', key: 'validations.gt', message: "Validation 'gt' at 'b' was loosened from 'gt' 1 to 'min' 1." },
+      { path: 'c', kind: 'validation-loosened', severity: 'non-breaking', key: 'validations.max', message: "Validation 'max' at 'c' was loosened from 'max' 10 to 'lt' 12." },
+      { path: 'd', kind: 'validation-tightened', severity: 'breaking', key: 'validations.lt', message: "Validation 'lt' at 'd' was tightened from 'lt' 10 to 'max' 8." },
+    ]);
+    expect(result.changes[0]).toMatchObject({ before: { min: 1 }, after: { gt: 1 } });
+  });
+
+  it('should classify removed defaults by whether the field is optional', async () => {
+    expect(
+      await changesOf(
+        'Z.object({ role: Z.string().default("user"), theme: Z.string().default("dark"), lang: Z.string().default("en") })',
+        'Z.object({ role: Z.string(), theme: Z.string().optional(), lang: Z.string().default("nb") })',
+      ),
+    ).toEqual([
+      { path: 'role', kind: 'property-changed', severity: 'breaking', key: 'defaultValue' },
+      { path: 'theme', kind: 'optional-changed', severity: 'non-breaking', key: 'optional' },
+      { path: 'theme', kind: 'property-changed', severity: 'non-breaking', key: 'defaultValue' },
+      { path: 'lang', kind: 'property-changed', severity: 'non-breaking', key: 'defaultValue' },
+    ]);
+  });
+
+  it('should classify type changes, modifier flips and enum values', async () => {
+    expect(
+      await changesOf(
+        'Z.object({ id: Z.number(), note: Z.string().optional(), meta: Z.string(), role: Z.enum(["admin", "user"]), tags: Z.array(Z.string()) })',
+        'Z.object({ id: Z.string(), note: Z.string(), meta: Z.unknown(), role: Z.enum(["user", "guest"]).nullable(), tags: Z.array(Z.number()) })',
+      ),
+    ).toEqual([
+      { path: 'id', kind: 'type-changed', severity: 'breaking', key: 'type' },
+      { path: 'note', kind: 'optional-changed', severity: 'breaking', key: 'optional' },
+      { path: 'meta', kind: 'type-changed', severity: 'non-breaking', key: 'type' },
+      { path: 'role', kind: 'nullable-changed', severity: 'non-breaking', key: 'nullable' },
+      { path: 'role', kind: 'enum-values-removed', severity: 'breaking', key: 'values' },
+      { path: 'role', kind: 'enum-values-added', severity: 'non-breaking', key: 'values' },
+      { path: 'tags.[]', kind: 'type-changed', severity: 'breaking', key: 'type' },
+    ]);
+  });
+
+  it('should report extension and description changes as metadata', async () => {
+    const result = diff(
+      await definitionOf('Z.object({ name: Z.string().label("Name").ui$hint("a").describe("Full name") })'),
+      await definitionOf('Z.object({ name: Z.string().ui$hint("b").ui$width(4).describe("Name") })'),
+    );
+    expect(result.breaking).toBe(false);
+    expect(result.summary).toEqual({ breaking: 0, 'non-breaking': 0, metadata: 4 });
+    expect(result.changes.map(({ kind, key, message }) => ({ kind, key, message }))).toEqual([
+      { kind: 'property-changed', key: 'description', message: "'description' at 'name' changed." },
+      { kind: 'extension-removed', key: 'extensions.label', message: "Extension 'label' was removed from 'name'." },
+      { kind: 'extension-changed', key: 'namespaces.ui.hint', message: "Extension 'ui$hint' at 'name' changed." },
+      { kind: 'extension-added', key: 'namespaces.ui.width', message: "Extension 'ui$width' was added to 'name'." },
+    ]);
+  });
+
+  it('should compare union options and object modes', async () => {
+    expect(
+      await changesOf(
+        'Z.object({ pet: Z.discriminatedUnion("kind", [Z.object({ kind: Z.literal("cat"), lives: Z.number() }), Z.object({ kind: Z.literal("dog") })]), id: Z.union([Z.string(), Z.number()]) }).passthrough()',
+        'Z.object({ pet: Z.discriminatedUnion("kind", [Z.object({ kind: Z.literal("cat"), lives: Z.number().max(9) }), Z.object({ kind: Z.literal("fish") })]), id: Z.union([Z.string(), Z.boolean()]) }).strict()',
+      ),
+    ).toEqual([
+      { path: '', kind: 'property-changed', severity: 'breaking', key: 'unknownKeys' },
+      { path: 'pet.cat.lives', kind: 'validation-added', severity: 'breaking', key: 'validations.max' },
+      { path: 'pet', kind: 'option-removed', severity: 'breaking', key: 'options' },
+      { path: 'pet', kind: 'option-added', severity: 'non-breaking', key: 'options' },
+      { path: 'id', kind: 'option-removed', severity: 'breaking', key: 'options' },
+      { path: 'id', kind: 'option-added', severity: 'non-breaking', key: 'options' },
+    ]);
+  });
+
+  it('should format a JSON report for CI', async () => {
+    const result = diff(await definitionOf('Z.object({ n: Z.bigint().min(1n) })'), await definitionOf('Z.object({ n: Z.bigint().min(5n) })'));
+    expect(JSON.parse(formatDiffReport(result))).toEqual({
+      breaking: true,
+      summary: { breaking: 1, 'non-breaking': 0, metadata: 0 },
+      changes: [
+        {
+          path: 'n',
+          kind: 'validation-tightened',
+          severity: 'breaking',
+          key: 'validations.min',
+          before: '1n',
+          after: '5n',
+          message: "Validation 'min' at 'n' was tightened from 1n to 5n.",
+        },
+      ],
+    });
+  });
+
+  it('should throw for values that are not definitions', () => {
+    // Deliberately invalid: field 'a' has no type, as in a corrupted stored definition
+    const invalid = { type: 'object', fields: { a: {} } } as unknown as ZontaxDefinition;
+    expect(() => diff(invalid, { type: 'object', fields: { a: { type: 'string' } } })).toThrow(
+      ZontaxMergeError,
+    );
+  });
+});
@@ -0,0 +1,427 @@
+import { ZontaxMergeError } from "./errors";
+import type { ZontaxDefinition } from "./index";
+
+/**
+ * - `breaking`: data the old definition accepted may be rejected, or a field clients read may be gone
+ * - `non-breaking`: everything the old definition accepted is still accepted
+ * - `metadata`: only descriptions, error messages and extensions changed
+ */
+export type ZontaxChangeSeverity = "breaking" | "non-breaking" | "metadata";
+
+export type ZontaxChangeKind =
+  | "field-added"
+  | "field-removed"
+  | "type-changed"
+  | "validation-added"
+  | "validation-removed"
+  | "validation-tightened"
+  | "validation-loosened"
+  | "validation-changed"
+  | "optional-changed"
+  | "nullable-changed"
+  | "enum-values-added"
+  | "enum-values-removed"
+  | "option-added"
+  | "option-removed"
+  | "extension-added"
+  | "extension-removed"
+  | "extension-changed"
+  | "property-changed";
+
+export interface ZontaxSchemaChange {
+  /**
+   * Field path, `[]` for the root. Array elements are at `[]`, tuple items at their
+   * index and discriminated union options at their discriminator value. Record keys
+   * and values, catchalls and intersection members share the path of their parent.
+   */
+  path: string[];
+  kind: ZontaxChangeKind;
+  severity: ZontaxChangeSeverity;
+  /** The property that changed, named like `validations.min`, `extensions.label` or `namespaces.ui.label` */
+  key?: string;
+  before?: unknown;
+  after?: unknown;
+  message: string;
+}
+
+export interface ZontaxDiffResult {
+  /** True when any change is breaking */
+  breaking: boolean;
+  summary: Record<ZontaxChangeSeverity, number>;
+  changes: ZontaxSchemaChange[];
+}
+
+const LOWER_BOUNDS = ["min", "gt"];
+const UPPER_BOUNDS = ["max", "lt"];
+/** Inclusive and exclusive forms of the same bound, compared when one replaces the other */
+const EQUIVALENT_BOUNDS: [string, string][] = [
+  ["min", "gt"],
+  ["max", "lt"],
+];
+/** Types that accept every value, so changing to them can't reject data */
+const TOP_TYPES = ["any", "unknown"];
+
+function describePath(path: string[]): string {
+  return path.length > 0 ? `'${path.join(".")}'` : "the root";
+}
+
+function printValue(value: unknown): string {
+  if (typeof value === "bigint") return `${value}n`;
+  return JSON.stringify(value) ?? "undefined";
+}
+
+function isDeepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return Number.isNaN(a) && Number.isNaN(b);
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((key) => isDeepEqual(a[key], b[key]));
+}
+
+function enumValues(def: any): unknown[] {
+  return [].concat(def.values);
+}
+
+/** `tightened`, `loosened` or plain `changed` for a validation whose value changed */
+function compareValidation(key: string, before: any, after: any): "tightened" | "loosened" | "changed" {
+  const ordered = (typeof before === "number" || typeof before === "bigint") && typeof after === typeof before;
+  if (ordered && LOWER_BOUNDS.includes(key)) return after > before ? "tightened" : "loosened";
+  if (ordered && UPPER_BOUNDS.includes(key)) return after < before ? "tightened" : "loosened";
+  if (key === "ip" && before === true) return "tightened";
+  if (key === "ip" && after === true) return "loosened";
+  return "changed";
+}
+
+/** Direction of a bound that changed between its inclusive and exclusive form, e.g. `min(1)` to `gt(1)` */
+function compareBound(beforeKey: string, before: any, afterKey: string, after: any): "tightened" | "loosened" | "changed" {
+  const ordered = (typeof before === "number" || typeof before === "bigint") && typeof after === typeof before;
+  if (!ordered) return "changed";
+  const exclusive = afterKey === "gt" || afterKey === "lt";
+  if (before === after) return exclusive ? "tightened" : "loosened";
+  return compareValidation(LOWER_BOUNDS.includes(beforeKey) ? "min" : "max", before, after);
+}
+
+class DefinitionDiff {
+  changes: ZontaxSchemaChange[] = [];
+  /** Pairs being compared, so definitions with object cycles terminate */
+  private comparing: [object, object][] = [];
+
+  private add(change: Omit<ZontaxSchemaChange, "message">, message: string): void {
+    this.changes.push({ ...change, message });
+  }
+
+  compare(before: any, after: any, path: string[]): void {
+    for (const def of [before, after]) {
+      if (!def || typeof def.type !== "string") {
+        throw new ZontaxMergeError(`Invalid definition at path '${path.join(".")}'.`, { code: "INVALID_DEFINITION", path });
+      }
+    }
+    if (this.comparing.some(([a, b]) => a === before && b === after)) return;
+    this.comparing.push([before, after]);
+    try {
+      this.compareNode(before, after, path);
+    } finally {
+      this.comparing.pop();
+    }
+  }
+
+  private compareNode(before: any, after: any, path: string[]): void {
+    const at = describePath(path);
+    const sameName = !["ref", "lazy"].includes(before.type) || before.name === after.name;
+    const sameLiteral = before.type !== "literal" || isDeepEqual(before.value, after.value);
+    if (before.type !== after.type || !sameName || !sameLiteral) {
+      const label = (def: any) =>
+        def.type === "literal" ? `literal ${printValue(def.value)}` : def.name ? `${def.type} '${def.name}'` : `'${def.type}'`;
+      this.add(
+        {
+          path,
+          kind: "type-changed",
+          severity: TOP_TYPES.includes(after.type) ? "non-breaking" : "breaking",
+          key: "type",
+          before: before.type,
+          after: after.type,
+        },
+        `Type at ${at} changed from ${label(before)} to ${label(after)}.`,
+      );
+      return;
+    }
+
+    this.compareModifier("optional", before, after, path);
+    this.compareModifier("nullable", before, after, path);
+    this.compareValidations(before.validations || {}, after.validations || {}, path);
+    this.compareEnum(before, after, path);
+    this.compareProperties(before, after, path);
+    this.compareExtensions(before.extensions, after.extensions, "extensions", path);
+    const namespaces = new Set([...Object.keys(before.namespaces || {}), ...Object.keys(after.namespaces || {})]);
+    for (const ns of namespaces) {
+      this.compareExtensions(before.namespaces?.[ns], after.namespaces?.[ns], `namespaces.${ns}`, path);
+    }
+    this.compareChildren(before, after, path);
+  }
+
+  private compareModifier(key: "optional" | "nullable", before: any, after: any, path: string[]): void {
+    const wasSet = !!before[key];
+    const isSet = !!after[key];
+    if (wasSet === isSet) return;
+    this.add(
+      { path, kind: `${key}-changed`, severity: isSet ? "non-breaking" : "breaking", key, before: wasSet, after: isSet },
+      `${path.length > 0 ? `Field '${path.join(".")}'` : "The root"} is ${isSet ? "now" : "no longer"} ${key}.`,
+    );
+  }
+
+  private compareValidations(before: Record<string, any>, after: Record<string, any>, path: string[]): void {
+    const at = describePath(path);
+    // Bounds that switched between their inclusive and exclusive form are compared, not removed and added
+    const switched = new Set<string>();
+    for (const [inclusive, exclusive] of EQUIVALENT_BOUNDS) {
+      for (const [oldKey, newKey] of [[inclusive, exclusive], [exclusive, inclusive]]) {
+        if (!(oldKey in before) || newKey in before || oldKey in after || !(newKey in after)) continue;
+        switched.add(oldKey).add(newKey);
+        const direction = compareBound(oldKey, before[oldKey], newKey, after[newKey]);
+        this.add(
+          {
+            path,
+            kind: `validation-${direction}`,
+            severity: direction === "loosened" ? "non-breaking" : "breaking",
+            key: `validations.${oldKey}`,
+            before: { [oldKey]: before[oldKey] },
+            after: { [newKey]: after[newKey] },
+          },
+          `Validation '${oldKey}' at ${at} was ${direction} from '${oldKey}' ${printValue(before[oldKey])} to '${newKey}' ${printValue(after[newKey])}.`,
+        );
+      }
+    }
+    for (const key of Object.keys(before)) {
+      if (switched.has(key)) continue;
+      const change = { path, key: `validations.${key}`, before: before[key] };
+      if (!(key in after)) {
+        this.add({ ...change, kind: "validation-removed", severity: "non-breaking" }, `Validation '${key}' was removed from ${at}.`);
+      } else if (!isDeepEqual(before[key], after[key])) {
+        const direction = compareValidation(key, before[key], after[key]);
+        this.add(
+          {
+            ...change,
+            kind: `validation-${direction}`,
+            severity: direction === "loosened" ? "non-breaking" : "breaking",
+            after: after[key],
+          },
+          `Validation '${key}' at ${at} was ${direction} from ${printValue(before[key])} to ${printValue(after[key])}.`,
+        );
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (key in before || switched.has(key)) continue;
+      this.add(
+        { path, kind: "validation-added", severity: "breaking", key: `validations.${key}`, after: after[key] },
+        `Validation '${key}' was added to ${at}.`,
+      );
+    }
+  }
+
+  private compareEnum(before: any, after: any, path: string[]): void {
+    if (before.type !== "enum") return;
+    const oldValues = enumValues(before);
+    const newValues = enumValues(after);
+    const removed = oldValues.filter((value) => !newValues.some((other) => isDeepEqual(value, other)));
+    const added = newValues.filter((value) => !oldValues.some((other) => isDeepEqual(value, other)));
+    const list = (values: unknown[]) => values.map(printValue).join(", ");
+    if (removed.length > 0) {
+      this.add(
+        { path, kind: "enum-values-removed", severity: "breaking", key: "values", before: removed },
+        `Enum values ${list(removed)} were removed from ${describePath(path)}.`,
+      );
+    }
+    if (added.length > 0) {
+      this.add(
+        { path, kind: "enum-values-added", severity: "non-breaking", key: "values", after: added },
+        `Enum values ${list(added)} were added to ${describePath(path)}.`,
+      );
+    }
+  }
+
+  /** Properties reported as `property-changed` */
+  private compareProperties(before: any, after: any, path: string[]): void {
+    const properties: [string, unknown, unknown, ZontaxChangeSeverity][] = [
+      ["description", before.description, after.description, "metadata"],
+      ["typeMessage", before.typeMessage, after.typeMessage, "metadata"],
+      // Without its default a required field rejects data that leaves it out
+      [
+        "defaultValue",
+        before.defaultValue,
+        after.defaultValue,
+        after.defaultValue === undefined && !after.optional ? "breaking" : "non-breaking",
+      ],
+      // Strict objects reject unknown keys other modes accept
+      ["unknownKeys", before.unknownKeys, after.unknownKeys, after.unknownKeys === "strict" ? "breaking" : "non-breaking"],
+    ];
+    // A catchall on both sides is compared like a field
+    if (!before.catchall !== !after.catchall) {
+      // Unknown keys were stripped or kept as they were before a catchall checks them
+      properties.push(["catchall", before.catchall, after.catchall, after.catchall ? "breaking" : "non-breaking"]);
+    }
+    const messages = new Set([...Object.keys(before.messages || {}), ...Object.keys(after.messages || {})]);
+    for (const key of messages) {
+      properties.push([`messages.${key}`, before.messages?.[key], after.messages?.[key], "metadata"]);
+    }
+    for (const [key, oldValue, newValue, severity] of properties) {
+      if (isDeepEqual(oldValue, newValue)) continue;
+      this.add(
+        { path, kind: "property-changed", severity, key, before: oldValue, after: newValue },
+        `'${key}' at ${describePath(path)} changed.`,
+      );
+    }
+  }
+
+  private compareExtensions(
+    before: Record<string, { value: unknown }> = {},
+    after: Record<string, { value: unknown }> = {},
+    group: string,
+    path: string[],
+  ): void {
+    const at = describePath(path);
+    const label = (name: string) => (group === "extensions" ? name : `${group.slice("namespaces.".length)}$${name}`);
+    for (const name of Object.keys(before)) {
+      const change = { path, severity: "metadata" as const, key: `${group}.${name}`, before: before[name].value };
+      if (!(name in after)) {
+        this.add({ ...change, kind: "extension-removed" }, `Extension '${label(name)}' was removed from ${at}.`);
+      } else if (!isDeepEqual(before[name].value, after[name].value)) {
+        this.add({ ...change, kind: "extension-changed", after: after[name].value }, `Extension '${label(name)}' at ${at} changed.`);
+      }
+    }
+    for (const name of Object.keys(after)) {
+      if (name in before) continue;
+      this.add(
+        { path, kind: "extension-added", severity: "metadata", key: `${group}.${name}`, after: after[name].value },
+        `Extension '${label(name)}' was added to ${at}.`,
+      );
+    }
+  }
+
+  private compareChildren(before: any, after: any, path: string[]): void {
+    if (before.type === "object") {
+      this.compareFields(before.fields || {}, after.fields || {}, path);
+      if (before.catchall && after.catchall) this.compare(before.catchall, after.catchall, path);
+    } else if (before.type === "array") {
+      this.compare(before.of, after.of, [...path, "[]"]);
+    } else if (before.type === "tuple") {
+      const entries = (items: any[] = []) => Object.fromEntries(items.map((item, i) => [String(i), item]));
+      this.compareFields(entries(before.items), entries(after.items), path, true);
+    } else if (before.type === "record") {
+      this.compare(before.keySchema, after.keySchema, path);
+      this.compare(before.valueSchema, after.valueSchema, path);
+    } else if (before.type === "intersection") {
+      this.compare(before.left, after.left, path);
+      this.compare(before.right, after.right, path);
+    } else if (before.type === "discriminatedUnion") {
+      this.compareDiscriminatedOptions(before, after, path);
+    } else if (before.type === "union") {
+      this.compareOptions(before.options || [], after.options || [], path);
+    }
+  }
+
+  /** Tuple items are positional, so adding one breaks existing data too */
+  private compareFields(before: Record<string, any>, after: Record<string, any>, path: string[], positional = false): void {
+    for (const name of Object.keys(before)) {
+      const fieldPath = [...path, name];
+      if (name in after) {
+        this.compare(before[name], after[name], fieldPath);
+      } else {
+        this.add(
+          { path: fieldPath, kind: "field-removed", severity: "breaking", before: before[name] },
+          `Field ${describePath(fieldPath)} was removed.`,
+        );
+      }
+    }
+    for (const name of Object.keys(after)) {
+      if (name in before) continue;
+      const fieldPath = [...path, name];
+      const field = after[name];
+      const required = positional || !(field.optional || field.defaultValue !== undefined);
+      this.add(
+        { path: fieldPath, kind: "field-added", severity: required ? "breaking" : "non-breaking", after: field },
+        `${required ? "Required" : "Optional"} field ${describePath(fieldPath)} was added.`,
+      );
+    }
+  }
+
+  private compareDiscriminatedOptions(before: any, after: any, path: string[]): void {
+    const byValue = (def: any) =>
+      new Map<string, any>((def.options || []).map((option: any) => [String(option.fields?.[def.discriminator]?.value), option]));
+    if (before.discriminator !== after.discriminator) {
+      this.add(
+        { path, kind: "property-changed", severity: "breaking", key: "discriminator", before: before.discriminator, after: after.discriminator },
+        `'discriminator' at ${describePath(path)} changed.`,
+      );
+      return;
+    }
+    const oldOptions = byValue(before);
+    const newOptions = byValue(after);
+    for (const [value, option] of oldOptions) {
+      if (newOptions.has(value)) {
+        this.compare(option, newOptions.get(value), [...path, value]);
+      } else {
+        this.add(
+          { path, kind: "option-removed", severity: "breaking", key: "options", before: option },
+          `Option '${value}' was removed from ${describePath(path)}.`,
+        );
+      }
+    }
+    for (const [value, option] of newOptions) {
+      if (oldOptions.has(value)) continue;
+      this.add(
+        { path, kind: "option-added", severity: "non-breaking", key: "options", after: option },
+        `Option '${value}' was added to ${describePath(path)}.`,
+      );
+    }
+  }
+
+  /** Plain union options have no identity, so an option that changed counts as removed and added */
+  private compareOptions(before: any[], after: any[], path: string[]): void {
+    for (const [i, option] of before.entries()) {
+      if (after.some((other) => isDeepEqual(option, other))) continue;
+      this.add(
+        { path, kind: "option-removed", severity: "breaking", key: "options", before: option },
+        `Union option ${i} was removed from ${describePath(path)}.`,
+      );
+    }
+    for (const [i, option] of after.entries()) {
+      if (before.some((other) => isDeepEqual(option, other))) continue;
+      this.add(
+        { path, kind: "option-added", severity: "non-breaking", key: "options", after: option },
+        `Union option ${i} was added to ${describePath(path)}.`,
+      );
+    }
+  }
+}
+
+/**
+ * Compare two versions of a definition and classify every change by whether data
+ * or clients written against the old version keep working with the new one.
+ * Changes are listed parent first, in field order.
+ */
+export function diff(oldDefinition: ZontaxDefinition, newDefinition: ZontaxDefinition): ZontaxDiffResult {
+  const walker = new DefinitionDiff();
+  walker.compare(oldDefinition, newDefinition, []);
+  const summary: Record<ZontaxChangeSeverity, number> = { breaking: 0, "non-breaking": 0, metadata: 0 };
+  for (const change of walker.changes) {
+    summary[change.severity]++;
+  }
+  return { breaking: summary.breaking > 0, summary, changes: walker.changes };
+}
+
+/**
+ * A JSON report of a diff for CI, with paths joined by dots and bigints written
+ * as `10n` strings so the output is always valid JSON.
+ */
+export function formatDiffReport(result: ZontaxDiffResult, options: { indent?: number } = {}): string {
+  const report = {
+    breaking: result.breaking,
+    summary: result.summary,
+    changes: result.changes.map((change) => ({ ...change, path: change.path.join(".") })),
+  };
+  return JSON.stringify(report, (_key, value) => (typeof value === "bigint" ? `${value}n` : value), options.indent ?? 2);
+}
@@ -0,0 +1,101 @@
+/** Stable identifiers for every failure the parser can report */
+export type ZontaxErrorCode =
+  | "INVALID_INPUT"
+  | "INPUT_TOO_LONG"
+  | "SYNTAX_ERROR"
+  | "PARSE_TIMEOUT"
+  | "MEMORY_LIMIT_EXCEEDED"
+  | "INPUT_TOO_COMPLEX"
+  | "INVALID_AST"
+  | "AST_TOO_COMPLEX"
+  | "FORBIDDEN_SYNTAX"
+  | "UNSUPPORTED_VALUE"
+  | "INVALID_DEFINITION"
+  | "UNSAFE_REGEXP"
+  | "UNRECOGNIZED_METHOD"
+  | "EXTENSION_PATH_NOT_ALLOWED"
+  | "EXTENSION_TYPE_NOT_ALLOWED"
+  | "EXTENSION_ARGS_MISMATCH"
+  | "EXTENSION_REQUIRED"
+  | "EXTENSION_EXCLUSIVE"
+  | "TYPE_MISMATCH"
+  | "VALIDATION_CONFLICT"
+  | "EXTENSION_CONFLICT"
+  | "MERGE_CONFLICT"
+  | "PARSE_FAILED"
+  | "UNSUPPORTED_CONVERSION"
+  | "ZOD_UNAVAILABLE"
+  | "UNRESOLVED_REF"
+  | "REF_CYCLE"
+  // Warnings, only reported by parseWithDiagnostics()
+  | "LOOSE_METHOD_CAPTURED"
+  | "EXTENSION_OVERRIDDEN";
+
+/** A position in a source string. Lines are 1-based, columns are 0-based (like acorn). */
+export interface ZontaxSourcePosition {
+  line: number;
+  column: number;
+  /** Character offset from the start of the source */
+  offset: number;
+}
+
+/** The span of source text an error or definition node refers to */
+export interface ZontaxSourceRange {
+  start: ZontaxSourcePosition;
+  end: ZontaxSourcePosition;
+}
+
+export interface ZontaxErrorDetails {
+  code?: ZontaxErrorCode;
+  /** Index of the `parse(...sources)` argument the error originated from */
+  sourceIndex?: number;
+  loc?: ZontaxSourceRange;
+  /** Field path within the schema, e.g. `["user", "name"]` */
+  path?: string[];
+}
+
+/** An error or warning collected by ZontaxParser.parseWithDiagnostics() */
+export interface ZontaxDiagnostic extends ZontaxErrorDetails {
+  severity: "error" | "warning";
+  code: ZontaxErrorCode;
+  message: string;
+}
+
+export class ZontaxMergeError extends Error {
+  code: ZontaxErrorCode;
+  sourceIndex?: number;
+  loc?: ZontaxSourceRange;
+  path?: string[];
+
+  constructor(message: string, details: ZontaxErrorDetails = {}) {
+    super(message);
+    this.name = "ZontaxMergeError";
+    this.code = details.code || "PARSE_FAILED";
+    this.sourceIndex = details.sourceIndex;
+    this.loc = details.loc;
+    this.path = details.path;
+  }
+
+  /** Serializable form for editors and API responses */
+  toJSON(): ZontaxErrorDetails & { name: string; message: string } {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      sourceIndex: this.sourceIndex,
+      loc: this.loc,
+      path: this.path,
+    };
+  }
+
+  toDiagnostic(severity: ZontaxDiagnostic["severity"] = "error"): ZontaxDiagnostic {
+    return {
+      severity,
+      code: this.code,
+      message: this.message,
+      sourceIndex: this.sourceIndex,
+      loc: this.loc,
+      path: this.path,
+    };
+  }
+}
@@ -0,0 +1,260 @@
+import { ZontaxParser, ZontaxMergeError, fromZod, toZod } from './index';
+import { z as z3 } from 'zod';
+import { z as z4 } from 'zod/v4';
+
+describe('fromZod', () => {
+  const parser = new ZontaxParser({ mode: 'loose' });
+
+  const expectedUser = {
+    type: 'object',
+    fields: {
+      name: { type: 'string', validations: { min: 2, max: 20 }, description: 'Full name' },
+      email: { type: 'string', validations: { email: true } },
+      age: { type: 'number', validations: { int: true, positive: true }, optional: true },
+      role: { type: 'enum', values: ['admin', 'user'], defaultValue: 'user' },
+      kind: { type: 'literal', value: 'person' },
+      tags: { type: 'array', of: { type: 'string' }, validations: { max: 3 } },
+      scores: { type: 'record', keySchema: { type: 'string' }, valueSchema: { type: 'number' } },
+      point: { type: 'tuple', items: [{ type: 'number' }, { type: 'number' }] },
+      id: { type: 'union', options: [{ type: 'string', validations: { uuid: true } }, { type: 'number' }] },
+      nickname: { type: 'string', nullable: true },
+      createdAt: { type: 'date' },
+    },
+  };
+
+  const userSchemas = {
+    '3': z3.object({
+      name: z3.string().min(2).max(20).describe('Full name'),
+      email: z3.string().email(),
+      age: z3.number().int().positive().optional(),
+      role: z3.enum(['admin', 'user']).default('user'),
+      kind: z3.literal('person'),
+      tags: z3.array(z3.string()).max(3),
+      scores: z3.record(z3.string(), z3.number()),
+      point: z3.tuple([z3.number(), z3.number()]),
+      id: z3.union([z3.string().uuid(), z3.number()]),
+      nickname: z3.string().nullable(),
+      createdAt: z3.date(),
+    }),
+    '4': z4.object({
+      name: z4.string().min(2).max(20).describe('Full name'),
+      email: z4.string().email(),
+      age: z4.number().int().positive().optional(),
+      role: z4.enum(['admin', 'user']).default('user'),
+      kind: z4.literal('person'),
+      tags: z4.array(z4.string()).max(3),
+      scores: z4.record(z4.string(), z4.number()),
+      point: z4.tuple([z4.number(), z4.number()]),
+      id: z4.union([z4.string().uuid(), z4.number()]),
+      nickname: z4.string().nullable(),
+      createdAt: z4.date(),
+    }),
+  };
+
+  const unsupportedSchemas = {
+    '3': z3.object({
+      code: z3.string().base64(),
+      slug: z3.string().refine((value) => value.length > 0),
+      stamp: z3.string().datetime(),
+      upper: z3.string().transform((value) => value.toUpperCase()),
+      since: z3.date().min(new Date(0)).max(new Date('2030-01-01')),
+    }),
+    '4': z4.object({
+      code: z4.string().base64(),
+      slug: z4.string().refine((value) => value.length > 0),
+      stamp: z4.string().datetime(),
+      upper: z4.string().transform((value) => value.toUpperCase()),
+      since: z4.date().min(new Date(0)).max(new Date('2030-01-01')),
+    }),
+  };
+
+  describe.each(['3', '4'] as const)('Zod %s', (zodVersion) => {
+    const userSchema = userSchemas[zodVersion];
+
+    it('should convert a schema into a definition and source', async () => {
+      const { definition, source, unsupported } = fromZod(userSchema);
+      expect(unsupported).toEqual([]);
+      expect(definition).toEqual(expectedUser);
+      expect((await parser.parse(source)).definition).toEqual(definition);
+    });
+
+    it('should round-trip through toZod', () => {
+      const { definition } = fromZod(userSchema);
+      expect(fromZod(toZod(definition, { zodVersion })).definition).toEqual(definition);
+    });
+
+    it('should report constructs without a Zontax equivalent', () => {
+      const { definition, unsupported } = fromZod(unsupportedSchemas[zodVersion]);
+      expect(definition).toEqual({
+        type: 'object',
+        fields: {
+          code: { type: 'string' },
+          slug: { type: 'string' },
+          stamp: { type: 'string' },
+          upper: { type: 'string' },
+          since: { type: 'date' },
+        },
+      });
+      expect(unsupported.map(({ path, construct }) => ({ path, construct }))).toEqual([
+        { path: ['code'], construct: 'base64' },
+        { path: ['slug'], construct: 'refine' },
+        { path: ['stamp'], construct: 'datetime' },
+        { path: ['upper'], construct: zodVersion === '3' ? 'transform' : 'pipe' },
+        { path: ['since'], construct: 'min' },
+        { path: ['since'], construct: 'max' },
+      ]);
+    });
+  });
+
+  it('should read string checks and transforms', () => {
+    const schemas = [
+      z3.string().regex(/^[a-z]+$/i).startsWith('a').endsWith('z').includes('m').cuid2().trim().toLowerCase(),
+      z4.string().regex(/^[a-z]+$/i).startsWith('a').endsWith('z').includes('m').cuid2().trim().toLowerCase(),
+    ];
+    for (const schema of schemas) {
+      const { definition, unsupported } = fromZod(schema);
+      expect(unsupported).toEqual([]);
+      expect(definition).toEqual({
+        type: 'string',
+        validations: {
+          regex: { pattern: '^[a-z]+$', flags: 'i' },
+          startsWith: 'a',
+          endsWith: 'z',
+          includes: 'm',
+          cuid2: true,
+          trim: true,
+          toLowerCase: true,
+        },
+      });
+    }
+    expect(fromZod(z3.string().ip({ version: 'v6' })).definition).toEqual({
+      type: 'string',
+      validations: { ip: { version: 'v6' } },
+    });
+    expect(fromZod(z4.string().ipv4()).definition).toEqual({ type: 'string', validations: { ip: { version: 'v4' } } });
+  });
+
+  it('should read numeric bounds and bigint checks', () => {
+    for (const schema of [z3.number().gt(1).lte(10).multipleOf(0.5).nonnegative(), z4.number().gt(1).lte(10).multipleOf(0.5).nonnegative()]) {
+      expect(fromZod(schema).definition).toEqual({
+        type: 'number',
+        validations: { gt: 1, max: 10, multipleOf: 0.5, min: 0 },
+      });
+    }
+    for (const schema of [z3.bigint().positive().lt(BigInt(100)), z4.bigint().positive().lt(BigInt(100))]) {
+      expect(fromZod(schema).definition).toEqual({
+        type: 'bigint',
+        validations: { positive: true, lt: BigInt(100) },
+      });
+    }
+  });
+
+  it('should read unknown key modes and catchall schemas', () => {
+    for (const schema of [z3.object({ a: z3.string() }).strict(), z4.object({ a: z4.string() }).strict()]) {
+      expect(fromZod(schema).definition).toEqual({
+        type: 'object',
+        fields: { a: { type: 'string' } },
+        unknownKeys: 'strict',
+      });
+    }
+    for (const schema of [z3.object({}).passthrough(), z4.object({}).passthrough()]) {
+      expect(fromZod(schema).definition).toEqual({ type: 'object', fields: {}, unknownKeys: 'passthrough' });
+    }
+    for (const schema of [z3.object({}).catchall(z3.number()), z4.object({}).catchall(z4.number())]) {
+      expect(fromZod(schema).definition).toEqual({
+        type: 'object',
+        fields: {},
+        catchall: { type: 'number' },
+      });
+    }
+  });
+
+  it('should read discriminated unions and intersections', () => {
+    const schemas = [
+      z3.intersection(
+        z3.discriminatedUnion('kind', [z3.object({ kind: z3.literal('a') }), z3.object({ kind: z3.literal('b') })]),
+        z3.object({ id: z3.string() }),
+      ),
+      z4.intersection(
+        z4.discriminatedUnion('kind', [z4.object({ kind: z4.literal('a') }), z4.object({ kind: z4.literal('b') })]),
+        z4.object({ id: z4.string() }),
+      ),
+    ];
+    for (const schema of schemas) {
+      expect(fromZod(schema).definition).toEqual({
+        type: 'intersection',
+        left: {
+          type: 'discriminatedUnion',
+          discriminator: 'kind',
+          options: [
+            { type: 'object', fields: { kind: { type: 'literal', value: 'a' } } },
+            { type: 'object', fields: { kind: { type: 'literal', value: 'b' } } },
+          ],
+        },
+        right: { type: 'object', fields: { id: { type: 'string' } } },
+      });
+    }
+  });
+
+  it('should read recursive schemas as self-references', () => {
+    const expected = {
+      type: 'object',
+      fields: { name: { type: 'string' }, children: { type: 'array', of: { type: 'self' } } },
+    };
+    const tree3: z3.ZodTypeAny = z3.object({ name: z3.string(), children: z3.array(z3.lazy(() => tree3)) });
+    const tree4 = z4.object({
+      name: z4.string(),
+      get children(): z4.ZodArray<typeof tree4> {
+        return z4.array(tree4);
+      },
+    });
+    expect(fromZod(tree3).definition).toEqual(expected);
+    expect(fromZod(tree4).definition).toEqual(expected);
+
+    const outer: z3.ZodTypeAny = z3.object({ inner: z3.object({ up: z3.lazy(() => outer) }) });
+    expect(fromZod(outer).unsupported.map(({ path, construct }) => ({ path, construct }))).toEqual([
+      { path: ['inner', 'up'], construct: 'lazy' },
+    ]);
+  });
+
+  it('should throw for recursion that does not go through an object', () => {
+    const json3: z3.ZodTypeAny = z3.union([z3.string(), z3.lazy(() => z3.array(json3))]);
+    const json4: z4.ZodType = z4.union([z4.string(), z4.lazy(() => z4.array(json4))]);
+    for (const schema of [json3, json4]) {
+      expect(() => fromZod(schema)).toThrow(ZontaxMergeError);
+      expect(() => fromZod(schema)).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_CONVERSION', path: ['[]'] }));
+    }
+  });
+
+  it('should read Zod 4 top-level formats', () => {
+    expect(fromZod(z4.object({ email: z4.email(), count: z4.int() })).definition).toEqual({
+      type: 'object',
+      fields: {
+        email: { type: 'string', validations: { email: true } },
+        count: { type: 'number', validations: { int: true } },
+      },
+    });
+  });
+
+  it('should read custom error messages', () => {
+    const expected = {
+      type: 'object',
+      fields: {
+        name: {
+          type: 'string',
+          validations: { min: 3 },
+          messages: { min: { message: 'Too short' } },
+          typeMessage: { message: 'Must be text' },
+        },
+        tags: { type: 'array', of: { type: 'string' }, validations: { max: 2 }, messages: { max: { message: 'Too many' } } },
+      },
+    };
+    expect(fromZod(z3.object({ name: z3.string({ message: 'Must be text' }).min(3, 'Too short'), tags: z3.array(z3.string()).max(2, 'Too many') })).definition).toEqual(expected);
+    expect(fromZod(z4.object({ name: z4.string({ error: 'Must be text' }).min(3, { error: 'Too short' }), tags: z4.array(z4.string()).max(2, 'Too many') })).definition).toEqual(expected);
+  });
+
+  it('should throw for values that are not Zod schemas', () => {
+    expect(() => fromZod({ type: 'string' })).toThrow(ZontaxMergeError);
+    expect(() => fromZod({ type: 'string' })).toThrow('Expected a Zod 3 or Zod 4 schema.');
+  });
+});
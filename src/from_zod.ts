@@ -0,0 +1,374 @@
+import { ZontaxMergeError } from "./errors";
+import type { ZontaxDefinition, ZontaxMessage } from "./index";
+import { printDefinition } from "./printer";
+
+/** A Zod construct that could not be represented in Zontax */
+export interface ZodImportIssue {
+  path: string[];
+  /** Zod type or check name, e.g. `transform` or `regex` */
+  construct: string;
+  message: string;
+}
+
+export interface ZodImportResult {
+  definition: ZontaxDefinition;
+  /** The definition printed as Zontax source */
+  source: string;
+  /** Constructs that have no Zontax equivalent and were left out */
+  unsupported: ZodImportIssue[];
+}
+
+/** Zod 3 `typeName`s mapped to the Zod 4 `def.type` names used below */
+const ZOD3_TYPE_NAMES: Record<string, string> = {
+  ZodString: "string",
+  ZodNumber: "number",
+  ZodBoolean: "boolean",
+  ZodDate: "date",
+  ZodBigInt: "bigint",
+  ZodSymbol: "symbol",
+  ZodNull: "null",
+  ZodUndefined: "undefined",
+  ZodVoid: "void",
+  ZodAny: "any",
+  ZodUnknown: "unknown",
+  ZodNever: "never",
+  ZodObject: "object",
+  ZodArray: "array",
+  ZodRecord: "record",
+  ZodTuple: "tuple",
+  ZodUnion: "union",
+  ZodDiscriminatedUnion: "union",
+  ZodIntersection: "intersection",
+  ZodEnum: "enum",
+  ZodLiteral: "literal",
+  ZodOptional: "optional",
+  ZodNullable: "nullable",
+  ZodDefault: "default",
+  ZodEffects: "effects",
+  ZodLazy: "lazy",
+};
+
+const PRIMITIVE_TYPES = [
+  "string",
+  "number",
+  "boolean",
+  "date",
+  "bigint",
+  "symbol",
+  "null",
+  "undefined",
+  "void",
+  "any",
+  "unknown",
+  "never",
+];
+
+/** Zod types imported as the schema they wrap */
+const WRAPPER_TYPES = ["optional", "nullable", "default", "effects", "pipe", "lazy", "intersection"];
+
+const STRING_FLAGS = ["email", "url", "uuid", "cuid", "cuid2", "ulid", "emoji", "nanoid", "trim", "toLowerCase", "toUpperCase"];
+
+/** The parts of a Zod 3 or Zod 4 schema the importer reads */
+interface ZodNode {
+  type: string;
+  def: any;
+  /** Checks normalized to `{ kind, value?, inclusive?, message? }`, or the raw name when unknown */
+  checks: { kind: string; value?: unknown; inclusive?: boolean; message?: string }[];
+  /** Custom error message for a value of the wrong type */
+  typeMessage?: string;
+}
+
+interface ImportContext {
+  unsupported: ZodImportIssue[];
+  /** Object schemas being imported, innermost last, to detect recursion */
+  objects: unknown[];
+  /** Every schema being imported, to detect recursion that does not go through an object */
+  importing: unknown[];
+}
+
+function report(ctx: ImportContext, path: string[], construct: string, message: string): void {
+  ctx.unsupported.push({ path, construct, message });
+}
+
+/** Zod 4 implements trim and case changes as opaque overwrites, tell them apart by their effect */
+function identifyOverwrite(tx: (value: string) => unknown): string {
+  let result: unknown;
+  try {
+    result = tx("  Ab  ");
+  } catch {
+    return "overwrite";
+  }
+  if (result === "Ab") return "trim";
+  if (result === "  ab  ") return "toLowerCase";
+  if (result === "  AB  ") return "toUpperCase";
+  return "overwrite";
+}
+
+/** The message a Zod 4 `error` parameter was created from. Zod wraps strings in a function */
+function readZod4Message(error: unknown): string | undefined {
+  if (typeof error !== "function") return undefined;
+  try {
+    const message = error({});
+    return typeof message === "string" ? message : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The message a Zod 3 error map gives for a value of the wrong type, unless it is the default */
+function readZod3TypeMessage(errorMap: unknown): string | undefined {
+  if (typeof errorMap !== "function") return undefined;
+  try {
+    const { message } = errorMap({ code: "invalid_type" }, { data: null, defaultError: "" });
+    return typeof message === "string" && message !== "" ? message : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Zod 4 checks, mapped onto the Zod 3 check shape */
+function normalizeZod4Check(check: any): ZodNode["checks"][number] {
+  switch (check.check) {
+    case "min_length":
+      return { kind: "min", value: check.minimum, inclusive: true };
+    case "max_length":
+      return { kind: "max", value: check.maximum, inclusive: true };
+    case "length_equals":
+      return { kind: "length", value: check.length };
+    case "greater_than":
+      return { kind: "min", value: check.value, inclusive: check.inclusive };
+    case "less_than":
+      return { kind: "max", value: check.value, inclusive: check.inclusive };
+    case "multiple_of":
+      return { kind: "multipleOf", value: check.value };
+    case "number_format":
+      return { kind: check.format === "safeint" ? "int" : check.format };
+    case "string_format":
+      switch (check.format) {
+        case "regex":
+          return { kind: "regex", value: check.pattern };
+        case "starts_with":
+          return { kind: "startsWith", value: check.prefix };
+        case "ends_with":
+          return { kind: "endsWith", value: check.suffix };
+        case "includes":
+          return { kind: "includes", value: check.includes };
+        case "ipv4":
+        case "ipv6":
+          return { kind: "ip", value: { version: check.format.slice(2) } };
+        default:
+          return { kind: check.format };
+      }
+    case "overwrite":
+      return { kind: identifyOverwrite(check.tx) };
+    case "custom":
+      return { kind: "refine" };
+    default:
+      return { kind: check.check };
+  }
+}
+
+function readNode(schema: any): ZodNode | undefined {
+  if (schema?._zod?.def) {
+    const def = schema._zod.def;
+    const checks = (def.checks || []).map((check: any) => {
+      const checkDef = check._zod?.def ?? check;
+      return { ...normalizeZod4Check(checkDef), message: readZod4Message(checkDef.error) };
+    });
+    // Top-level formats like z.email() and z.int() carry their check on the def itself
+    if (def.check) checks.unshift({ ...normalizeZod4Check(def), message: readZod4Message(def.error) });
+    return { type: def.type, def, checks, typeMessage: readZod4Message(def.error) };
+  }
+  if (schema?._def?.typeName) {
+    const def = schema._def;
+    let checks = (def.checks || []).map((check: any) => {
+      // Zod 3 keeps the regex itself and the IP version next to the kind
+      if (check.kind === "regex") return { kind: "regex", value: check.regex, message: check.message };
+      if (check.kind === "ip") {
+        return { kind: "ip", value: check.version ? { version: check.version } : true, message: check.message };
+      }
+      return check;
+    });
+    if (def.typeName === "ZodArray") {
+      checks = [
+        def.minLength && { kind: "min", value: def.minLength.value, inclusive: true, message: def.minLength.message },
+        def.maxLength && { kind: "max", value: def.maxLength.value, inclusive: true, message: def.maxLength.message },
+        def.exactLength && { kind: "length", value: def.exactLength.value, message: def.exactLength.message },
+      ].filter(Boolean);
+    }
+    return { type: ZOD3_TYPE_NAMES[def.typeName] || def.typeName, def, checks, typeMessage: readZod3TypeMessage(def.errorMap) };
+  }
+  return undefined;
+}
+
+function applyChecks(def: any, node: ZodNode, ctx: ImportContext, path: string[]): void {
+  const validations: Record<string, unknown> = {};
+  const messages: Record<string, ZontaxMessage> = {};
+  const isNumber = def.type === "number" || def.type === "bigint";
+  // Zontax bounds are lengths or numbers, date bounds have no equivalent
+  const hasBounds = isNumber || def.type === "string" || def.type === "array";
+
+  for (const check of node.checks) {
+    const { kind, value, inclusive, message } = check;
+    const set = (key: string, stored: unknown) => {
+      validations[key] = stored;
+      if (message !== undefined) messages[key] = { message };
+    };
+    if ((kind === "min" || kind === "max") && hasBounds && (inclusive !== false || !isNumber)) {
+      set(kind, value);
+    } else if (isNumber && kind === "min") {
+      // Exclusive bounds at zero are what .positive() and .negative() produce
+      if (Number(value) === 0) set("positive", true);
+      else set("gt", value);
+    } else if (isNumber && kind === "max") {
+      if (Number(value) === 0) set("negative", true);
+      else set("lt", value);
+    } else if (isNumber && kind === "multipleOf") {
+      set("multipleOf", value);
+    } else if (kind === "finite" && def.type === "number") {
+      set("finite", true);
+    } else if (kind === "length" && def.type !== "number") {
+      set("length", value);
+    } else if (kind === "int" && def.type === "number") {
+      set("int", true);
+    } else if (def.type === "string" && STRING_FLAGS.includes(kind)) {
+      set(kind, true);
+    } else if (def.type === "string" && kind === "regex") {
+      const regex = value as RegExp;
+      set("regex", { pattern: regex.source, flags: regex.flags });
+    } else if (def.type === "string" && ["startsWith", "endsWith", "includes", "ip"].includes(kind)) {
+      set(kind, value);
+    } else {
+      report(ctx, path, kind, `Check '${kind}' on type '${def.type}' has no Zontax equivalent.`);
+    }
+  }
+  if (Object.keys(validations).length > 0) def.validations = validations;
+  if (Object.keys(messages).length > 0) def.messages = messages;
+}
+
+function importSchema(schema: any, ctx: ImportContext, path: string[]): any {
+  const node = readNode(schema);
+  if (!node) {
+    report(ctx, path, "unknown", "Value is not a Zod schema.");
+    return { type: "unknown" };
+  }
+
+  // Recursion back to the nearest enclosing object is what Z.self() expresses
+  const ancestor = ctx.objects.lastIndexOf(schema);
+  if (ancestor === ctx.objects.length - 1 && ancestor !== -1) {
+    return { type: "self" };
+  } else if (ancestor !== -1) {
+    report(ctx, path, "lazy", "Recursion into an outer object has no Zontax equivalent, register it as a named definition and use Z.lazy().");
+    return { type: "unknown" };
+  }
+  // Any other cycle, such as a union that contains itself, would never finish importing
+  if (ctx.importing.includes(schema)) {
+    throw new ZontaxMergeError(
+      `Recursion at path '${path.join(".")}' does not go through an object and has no Zontax equivalent.`,
+      { code: "UNSUPPORTED_CONVERSION", path },
+    );
+  }
+  ctx.importing.push(schema);
+  try {
+    return importNode(schema, node, ctx, path);
+  } finally {
+    ctx.importing.pop();
+  }
+}
+
+function importNode(schema: any, node: ZodNode, ctx: ImportContext, path: string[]): any {
+  const { type, def: zodDef } = node;
+  let def: any;
+
+  if (type === "optional" || type === "nullable" || type === "default") {
+    def = importSchema(zodDef.innerType, ctx, path);
+    if (type === "optional") def.optional = true;
+    if (type === "nullable") def.nullable = true;
+    if (type === "default") {
+      def.defaultValue = typeof zodDef.defaultValue === "function" ? zodDef.defaultValue() : zodDef.defaultValue;
+    }
+  } else if (type === "effects" || type === "pipe") {
+    // Keep the input schema and report the refinement or transform that was lost
+    const construct = type === "pipe" ? "pipe" : zodDef.effect?.type === "refinement" ? "refine" : zodDef.effect?.type;
+    report(ctx, path, construct, `'${construct}' runs custom code and has no Zontax equivalent, only its input schema was kept.`);
+    def = importSchema(type === "pipe" ? zodDef.in : zodDef.schema, ctx, path);
+  } else if (type === "lazy") {
+    def = importSchema(zodDef.getter(), ctx, path);
+  } else if (type === "object") {
+    const shape = typeof zodDef.shape === "function" ? zodDef.shape() : zodDef.shape;
+    const fields: Record<string, any> = {};
+    ctx.objects.push(schema);
+    for (const key in shape) {
+      fields[key] = importSchema(shape[key], ctx, [...path, key]);
+    }
+    ctx.objects.pop();
+    def = { type: "object", fields };
+    // Zod 3 stores the unknown key mode separately, Zod 4 expresses it as a catchall
+    const catchall = zodDef.catchall && readNode(zodDef.catchall)?.type;
+    const mode = zodDef.typeName
+      ? zodDef.unknownKeys
+      : catchall === "never" ? "strict" : catchall === "unknown" ? "passthrough" : "strip";
+    if (mode === "strict" || mode === "passthrough") {
+      def.unknownKeys = mode;
+    } else if (catchall && catchall !== "never") {
+      def.catchall = importSchema(zodDef.catchall, ctx, path);
+    }
+  } else if (type === "array") {
+    def = { type: "array", of: importSchema(zodDef.element ?? zodDef.type, ctx, [...path, "[]"]) };
+  } else if (type === "record") {
+    def = {
+      type: "record",
+      keySchema: importSchema(zodDef.keyType, ctx, path),
+      valueSchema: importSchema(zodDef.valueType, ctx, path),
+    };
+  } else if (type === "tuple") {
+    def = { type: "tuple", items: zodDef.items.map((item: any, i: number) => importSchema(item, ctx, [...path, String(i)])) };
+    if (zodDef.rest) report(ctx, path, "rest", "Tuple rest elements have no Zontax equivalent.");
+  } else if (type === "union") {
+    // Zod 3 keeps discriminated unions apart, Zod 4 marks a union with its discriminator
+    const options = zodDef.options.map((option: any) => importSchema(option, ctx, path));
+    def = typeof zodDef.discriminator === "string"
+      ? { type: "discriminatedUnion", discriminator: zodDef.discriminator, options }
+      : { type: "union", options };
+  } else if (type === "intersection") {
+    def = { type: "intersection", left: importSchema(zodDef.left, ctx, path), right: importSchema(zodDef.right, ctx, path) };
+  } else if (type === "enum") {
+    def = { type: "enum", values: Array.isArray(zodDef.values) ? [...zodDef.values] : Object.values(zodDef.entries) };
+  } else if (type === "literal") {
+    const values = "values" in zodDef ? zodDef.values : [zodDef.value];
+    def = values.length === 1
+      ? { type: "literal", value: values[0] }
+      : { type: "union", options: values.map((value: unknown) => ({ type: "literal", value })) };
+  } else if (PRIMITIVE_TYPES.includes(type)) {
+    def = { type };
+  } else {
+    report(ctx, path, type, `Zod type '${type}' has no Zontax equivalent.`);
+    def = { type: "unknown" };
+  }
+
+  if (node.checks.length > 0 && def.type !== "unknown") {
+    applyChecks(def, node, ctx, path);
+  }
+  // Wrappers pass their inner schema through, so only the wrapped type's message applies
+  if (node.typeMessage !== undefined && !WRAPPER_TYPES.includes(type) && def.type !== "unknown") {
+    def.typeMessage = { message: node.typeMessage };
+  }
+  if (schema.description !== undefined && def.description === undefined) {
+    def.description = schema.description;
+  }
+  return def;
+}
+
+/**
+ * Convert a live Zod 3 or Zod 4 schema into a ZontaxDefinition and Zontax source.
+ * Refinements, transforms and other constructs without a Zontax equivalent are
+ * listed in `unsupported` instead of being dropped silently.
+ */
+export function fromZod(schema: unknown): ZodImportResult {
+  if (!readNode(schema)) {
+    throw new ZontaxMergeError("Expected a Zod 3 or Zod 4 schema.", { code: "INVALID_INPUT" });
+  }
+  const ctx: ImportContext = { unsupported: [], objects: [], importing: [] };
+  const definition = importSchema(schema, ctx, []);
+  return { definition, source: printDefinition(definition), unsupported: ctx.unsupported };
+}
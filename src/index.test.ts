@@ -3,18 +3,28 @@ import {
   Extension,
   ZontaxMergeError,
   ZontaxObjectDefinition,
+  ZontaxArrayDefinition,
   ZontaxEnumDefinition,
   ZontaxLiteralDefinition,
   ZontaxTupleDefinition,
   ZontaxUnionDefinition,
   ZontaxRecordDefinition,
+  isDiscriminatedUnionDefinition,
+  isIntersectionDefinition,
+  isRefDefinition,
+  isSelfDefinition,
+  isLazyDefinition,
+  ZontaxDefinition,
+  checkZodCompatibility,
+  ZontaxMergeConflict,
 } from './index';
+import { z as z4 } from 'zod/v4';
 const { parseZodString } = require('zod-subset-parser/zod4');
 
 // --- Test Data (Category-less) ---
 const uiSchema: Extension[] = [
   { name: 'label', allowedOn: ['string'], args: ['string'] },
-  { name: 'placeholder', allowedOn: ['string'], args: ['string'] },
+  { name: 'placeholder', allowedOn: ['string', 'number'], args: ['string'] },
 ];
 
 const docSchema: Extension[] = [
@@ -85,7 +95,7 @@ describe('ZontaxParser', () => {
 
     it('should support .describe() method', async () => {
       const { schema, definition } = await parser.parse('Z.string().describe("A user name")');
-      expect(schema).toBe('z.string().describe("A user name")');
+      expect(schema).toBe('z.string().meta({ description: "A user name" })');
       expect(definition.description).toBe('A user name');
       expect(definition.type).toBe('string');
       expect(() => parseZodString(schema)).not.toThrow();
@@ -93,7 +103,7 @@ describe('ZontaxParser', () => {
 
     it('should support .describe() with other methods', async () => {
       const { schema, definition } = await parser.parse('Z.string().min(3).describe("Username").optional()');
-      expect(schema).toBe('z.string().min(3).describe("Username").optional()');
+      expect(schema).toBe('z.string().min(3).meta({ description: "Username" }).optional()');
       expect(definition.description).toBe('Username');
       expect(definition.validations!.min).toBe(3);
       expect(definition.optional).toBe(true);
@@ -102,14 +112,14 @@ describe('ZontaxParser', () => {
 
     it('should support .describe() in object fields', async () => {
       const { schema, definition } = await parser.parse('Z.object({name: Z.string().describe("User full name")})');
-      expect(schema).toBe('z.object({ name: z.string().describe("User full name") })');
+      expect(schema).toBe('z.object({ name: z.string().meta({ description: "User full name" }) })');
       expect((definition as ZontaxObjectDefinition).fields.name.description).toBe('User full name');
       expect(() => parseZodString(schema)).not.toThrow();
     });
 
     it('should support .describe() with validations', async () => {
       const { schema, definition } = await parser.parse('Z.number().min(0).max(100).describe("Percentage value")');
-      expect(schema).toBe('z.number().max(100).min(0).describe("Percentage value")');
+      expect(schema).toBe('z.number().max(100).min(0).meta({ description: "Percentage value" })');
       expect(definition.description).toBe('Percentage value');
       expect(definition.validations!.min).toBe(0);
       expect(definition.validations!.max).toBe(100);
@@ -132,7 +142,7 @@ describe('ZontaxParser', () => {
 
     it('should support number validations (int, positive, negative)', async () => {
       const { schema: intSchema } = await parser.parse('Z.number().int()');
-      expect(intSchema).toBe('z.number().int()');
+      expect(intSchema).toBe('z.int()');
       expect(() => parseZodString(intSchema)).not.toThrow();
 
       const { schema: positiveSchema } = await parser.parse('Z.number().positive()');
@@ -144,6 +154,49 @@ describe('ZontaxParser', () => {
       expect(() => parseZodString(negativeSchema)).not.toThrow();
     });
 
+    it('should support exclusive bounds, steps and sign checks', async () => {
+      const { schema, definition } = await parser.parse(
+        'Z.object({ price: Z.number().gt(0).lte(1000).multipleOf(0.01).finite(), stock: Z.number().int().nonnegative(), delta: Z.number().lt(5).nonpositive() })',
+      );
+      const { fields } = definition as ZontaxObjectDefinition;
+      expect(fields.price.validations).toEqual({ finite: true, multipleOf: 0.01, max: 1000, gt: 0 });
+      expect(fields.stock.validations).toEqual({ nonnegative: true, int: true });
+      expect(fields.delta.validations).toEqual({ nonpositive: true, lt: 5 });
+      expect(schema).toBe(
+        'z.object({ price: z.number().multipleOf(0.01).max(1000).gt(0), stock: z.int().nonnegative(), delta: z.number().nonpositive().lt(5) })',
+      );
+
+      const zodSchema = parseZodString(schema);
+      expect(zodSchema.safeParse({ price: 9.99, stock: 0, delta: -1 }).success).toBe(true);
+      expect(zodSchema.safeParse({ price: 0, stock: 0, delta: -1 }).success).toBe(false);
+      expect(zodSchema.safeParse({ price: 1, stock: -1, delta: -1 }).success).toBe(false);
+      expect(zodSchema.safeParse({ price: 1, stock: 0, delta: 1 }).success).toBe(false);
+    });
+
+    it('should merge gte and lte with equal min and max', async () => {
+      const { definition } = await parser.parse('Z.number().min(1).max(9)', 'Z.number().gte(1).lte(9).gt(0)');
+      expect(definition.validations).toEqual({ min: 1, max: 9, gt: 0 });
+      await expect(parser.parse('Z.number().min(1)', 'Z.number().gte(2)')).rejects.toMatchObject({
+        code: 'VALIDATION_CONFLICT',
+      });
+    });
+
+    it('should support bigint literals for bigint bounds and defaults', async () => {
+      const { schema, definition } = await parser.parse('Z.bigint().gte(-10n).lt(9007199254740993n).multipleOf(2n).default(4n)');
+      expect(definition.validations).toEqual({
+        multipleOf: BigInt(2),
+        lt: BigInt('9007199254740993'),
+        min: BigInt(-10),
+      });
+      expect(definition.defaultValue).toBe(BigInt(4));
+      expect(schema).toBe('z.bigint().multipleOf(2n).lt(9007199254740993n).min(-10n).default(4n)');
+
+      const zodSchema = parseZodString(schema);
+      expect(zodSchema.parse(undefined)).toBe(BigInt(4));
+      expect(zodSchema.safeParse(BigInt(3)).success).toBe(false);
+      expect(zodSchema.safeParse(BigInt(-12)).success).toBe(false);
+    });
+
     it('should support negative number literals in min/max constraints', async () => {
       const { schema: minNegative, definition: minDef } = await parser.parse('Z.number().min(-10)');
       expect(minNegative).toBe('z.number().min(-10)');
@@ -244,7 +297,7 @@ describe('ZontaxParser', () => {
 
     it('should support complex method chaining', async () => {
       const { schema, definition } = await parser.parse('Z.string().min(3).max(10).optional().nullable().describe("Name")');
-      expect(schema).toBe('z.string().max(10).min(3).describe("Name").nullable().optional()');
+      expect(schema).toBe('z.string().max(10).min(3).meta({ description: "Name" }).nullable().optional()');
       expect(definition.validations!.min).toBe(3);
       expect(definition.validations!.max).toBe(10);
       expect(definition.optional).toBe(true);
@@ -255,22 +308,651 @@ describe('ZontaxParser', () => {
 
     it('should support complex nested structures', async () => {
       const { schema } = await parser.parse('Z.union([Z.string().email(), Z.literal("admin")])'); 
-      expect(schema).toBe('z.union([z.string().email(), z.literal("admin")])');
+      expect(schema).toBe('z.union([z.email(), z.literal("admin")])');
       expect(() => parseZodString(schema)).not.toThrow();
     });
+
+    it('should support string format and substring checks', async () => {
+      const { schema, definition } = await parser.parse(
+        'Z.string().startsWith("ab").endsWith("yz").includes("m").cuid().cuid2().ulid().emoji().nanoid()',
+      );
+      expect(definition.validations).toEqual({
+        startsWith: 'ab',
+        endsWith: 'yz',
+        includes: 'm',
+        cuid: true,
+        cuid2: true,
+        ulid: true,
+        emoji: true,
+        nanoid: true,
+      });
+      expect(schema).toBe(
+        'z.string().nanoid().emoji().ulid().cuid2().cuid().includes("m").endsWith("yz").startsWith("ab")',
+      );
+      expect(() => parseZodString(schema)).not.toThrow();
+    });
+
+    it('should support regex literals', async () => {
+      const { schema, definition } = await parser.parse('Z.object({ code: Z.string().regex(/^[A-Z]{2}\\/\\d+$/i) })');
+      const code = (definition as ZontaxObjectDefinition).fields.code;
+      expect(code.validations!.regex).toEqual({ pattern: '^[A-Z]{2}\\/\\d+$', flags: 'i' });
+      expect(schema).toBe('z.object({ code: z.string().regex(/^[A-Z]{2}\\/\\d+$/i) })');
+
+      const zodSchema = parseZodString(schema);
+      expect(zodSchema.safeParse({ code: 'ab/12' }).success).toBe(true);
+      expect(zodSchema.safeParse({ code: 'ab12' }).success).toBe(false);
+    });
+
+    it('should accept unanchored and flagged regex literals', async () => {
+      for (const regex of ['/abc/i', '/a+/', '/\\d+-\\w*/g', '/(?:ab)+c/', '/(a|b)*c/', '/[a-z]{2,}(\\.[a-z]+)?/u']) {
+        const { definition } = await parser.parse(`Z.string().regex(${regex})`);
+        expect(definition).toMatchObject({ validations: { regex: expect.any(Object) } });
+      }
+    });
+
+    it('should reject unsafe or non-literal regex arguments', async () => {
+      await expect(parser.parse('Z.string().regex(/(a+)+$/)')).rejects.toMatchObject({ code: 'UNSAFE_REGEXP' });
+      await expect(parser.parse('Z.string().regex(/^(\\w+\\s?)*$/)')).rejects.toMatchObject({ code: 'UNSAFE_REGEXP' });
+      await expect(parser.parse('Z.string().regex(/(a|a)*b/)')).rejects.toMatchObject({
+        code: 'UNSAFE_REGEXP',
+        message: 'RegExp pattern contains ReDoS vulnerability: overlapping alternatives',
+      });
+      await expect(parser.parse('Z.string().regex("^a$")')).rejects.toMatchObject({
+        code: 'UNSUPPORTED_VALUE',
+        message: "'.regex()' expects a regular expression literal",
+      });
+    });
+
+    it('should emit string transforms before checks', async () => {
+      const { schema, definition } = await parser.parse('Z.string().trim().toLowerCase().min(1)');
+      expect(definition.validations).toEqual({ min: 1, toLowerCase: true, trim: true });
+      expect(schema).toBe('z.string().toLowerCase().trim().min(1)');
+      expect(parseZodString(schema).parse('  ABC ')).toBe('abc');
+    });
+
+    it('should store IP checks with their version', async () => {
+      const { schema, definition } = await parser.parse('Z.object({ v4: Z.string().ipv4(), v6: Z.string().ip({ version: "v6" }) })');
+      const { fields } = definition as ZontaxObjectDefinition;
+      expect(fields.v4.validations!.ip).toEqual({ version: 'v4' });
+      expect(fields.v6.validations!.ip).toEqual({ version: 'v6' });
+      expect(schema).toBe('z.object({ v4: z.ipv4(), v6: z.ipv6() })');
+      expect(parseZodString(schema).safeParse({ v4: '127.0.0.1', v6: '::1' }).success).toBe(true);
+
+      const zod3 = new ZontaxParser({ zodVersion: '3' });
+      const { schema: v3Schema } = await zod3.parse('Z.string().ipv4()');
+      expect(v3Schema).toBe('z.string().ip({"version":"v4"})');
+      expect((await zod3.parse('Z.string().ip()')).schema).toBe('z.string().ip()');
+
+      await expect(parser.parse('Z.string().ip()')).rejects.toMatchObject({ code: 'UNSUPPORTED_CONVERSION' });
+    });
+
+    it('should merge equal regex checks and reject conflicting ones', async () => {
+      const { definition } = await parser.parse('Z.string().regex(/^a$/)', 'Z.string().regex(/^a$/).trim()');
+      expect(definition.validations).toEqual({ regex: { pattern: '^a$', flags: '' }, trim: true });
+      await expect(parser.parse('Z.string().regex(/^a$/)', 'Z.string().regex(/^b$/)')).rejects.toMatchObject({
+        code: 'VALIDATION_CONFLICT',
+      });
+    });
+  });
+
+  describe('Object Modifiers', () => {
+    const parser = new ZontaxParser();
+    const user = 'Z.object({ id: Z.string(), name: Z.string(), email: Z.string().email().optional(), age: Z.number() })';
+
+    it('should record strict, passthrough and catchall', async () => {
+      const { schema, definition } = await parser.parse(
+        'Z.object({ a: Z.object({ x: Z.string() }).strict(), b: Z.object({}).passthrough(), c: Z.object({}).catchall(Z.number()) })',
+      );
+      const { fields } = definition as ZontaxObjectDefinition;
+      expect((fields.a as ZontaxObjectDefinition).unknownKeys).toBe('strict');
+      expect((fields.b as ZontaxObjectDefinition).unknownKeys).toBe('passthrough');
+      expect((fields.c as ZontaxObjectDefinition).catchall).toEqual({ type: 'number' });
+      expect(schema).toBe(
+        'z.object({ a: z.strictObject({ x: z.string() }), b: z.looseObject({  }), c: z.object({  }).catchall(z.number()) })',
+      );
+
+      const zodSchema = parseZodString(schema);
+      expect(zodSchema.safeParse({ a: { x: 'x', y: 1 }, b: {}, c: {} }).success).toBe(false);
+      expect(zodSchema.safeParse({ a: { x: 'x' }, b: { any: true }, c: { n: 1 } }).success).toBe(true);
+      expect(zodSchema.safeParse({ a: { x: 'x' }, b: {}, c: { n: 'one' } }).success).toBe(false);
+    });
+
+    it('should apply pick, omit, partial, required and extend in source order', async () => {
+      const { definition: picked } = await parser.parse(`${user}.pick({ id: true, email: true }).required()`);
+      expect(picked).toEqual({
+        type: 'object',
+        fields: { id: { type: 'string' }, email: { type: 'string', validations: { email: true } } },
+      });
+
+      const { definition: omitted } = await parser.parse(`${user}.omit({ age: true }).partial({ name: true })`);
+      expect(omitted).toEqual({
+        type: 'object',
+        fields: {
+          id: { type: 'string' },
+          name: { type: 'string', optional: true },
+          email: { type: 'string', validations: { email: true }, optional: true },
+        },
+      });
+
+      const { definition: extendedThenPartial } = await parser.parse(
+        'Z.object({ id: Z.string() }).extend({ tags: Z.array(Z.string()), id: Z.number() }).partial()',
+      );
+      expect(extendedThenPartial).toEqual({
+        type: 'object',
+        fields: {
+          id: { type: 'number', optional: true },
+          tags: { type: 'array', of: { type: 'string' }, optional: true },
+        },
+      });
+
+      const { definition: partialThenExtended } = await parser.parse(
+        'Z.object({ id: Z.string() }).partial().extend({ tags: Z.array(Z.string()) })',
+      );
+      expect((partialThenExtended as ZontaxObjectDefinition).fields.tags.optional).toBeUndefined();
+    });
+
+    it('should reject invalid modifier usage', async () => {
+      await expect(parser.parse('Z.string().partial()')).rejects.toMatchObject({
+        code: 'INVALID_DEFINITION',
+        message: "'.partial()' can only be used on Z.object() at path ''.",
+      });
+      await expect(parser.parse(`${user}.pick({ missing: true })`)).rejects.toThrow(
+        "Unrecognized key 'missing' in '.pick()' at path ''.",
+      );
+      await expect(parser.parse(`${user}.omit()`)).rejects.toThrow(
+        "'.omit()' expects an object of the form { key: true } at path ''.",
+      );
+    });
+
+    it('should preserve unknown key modes and merge catchall schemas', async () => {
+      const { definition } = await parser.parse(
+        'Z.object({ a: Z.string() }).catchall(Z.string())',
+        'Z.object({ b: Z.number() }).strict().catchall(Z.string().min(1))',
+      );
+      expect(definition).toEqual({
+        type: 'object',
+        fields: { a: { type: 'string' }, b: { type: 'number' } },
+        unknownKeys: 'strict',
+        catchall: { type: 'string', validations: { min: 1 } },
+      });
+    });
+  });
+
+  describe('Discriminated Unions and Intersections', () => {
+    const parser = new ZontaxParser();
+    const event = (kind: string, fields = '') => `Z.object({ kind: Z.literal("${kind}")${fields} })`;
+
+    it('should parse and generate discriminated unions', async () => {
+      const { schema, definition } = await parser.parse(
+        `Z.discriminatedUnion("kind", [${event('created', ', id: Z.string()')}, ${event('deleted')}])`,
+      );
+      expect(isDiscriminatedUnionDefinition(definition)).toBe(true);
+      expect(definition).toEqual({
+        type: 'discriminatedUnion',
+        discriminator: 'kind',
+        options: [
+          { type: 'object', fields: { kind: { type: 'literal', value: 'created' }, id: { type: 'string' } } },
+          { type: 'object', fields: { kind: { type: 'literal', value: 'deleted' } } },
+        ],
+      });
+      expect(schema).toBe(
+        'z.discriminatedUnion("kind", [z.object({ kind: z.literal("created"), id: z.string() }), z.object({ kind: z.literal("deleted") })])',
+      );
+
+      const zodSchema = parseZodString(schema);
+      expect(zodSchema.safeParse({ kind: 'created', id: 'a' }).success).toBe(true);
+      expect(zodSchema.safeParse({ kind: 'created' }).success).toBe(false);
+      expect(zodSchema.safeParse({ kind: 'updated' }).success).toBe(false);
+    });
+
+    it('should parse and generate intersections', async () => {
+      const { schema, definition } = await parser.parse(
+        'Z.intersection(Z.object({ id: Z.string() }), Z.object({ name: Z.string() })).optional()',
+      );
+      expect(isIntersectionDefinition(definition)).toBe(true);
+      expect(definition).toEqual({
+        type: 'intersection',
+        left: { type: 'object', fields: { id: { type: 'string' } } },
+        right: { type: 'object', fields: { name: { type: 'string' } } },
+        optional: true,
+      });
+      expect(schema).toBe('z.intersection(z.object({ id: z.string() }), z.object({ name: z.string() })).optional()');
+      expect(parseZodString(schema).safeParse({ id: 'a', name: 'b' }).success).toBe(true);
+      expect(parseZodString(schema).safeParse({ id: 'a' }).success).toBe(false);
+    });
+
+    it('should require an object option with a literal discriminator', async () => {
+      await expect(parser.parse(`Z.discriminatedUnion("kind", [${event('a')}, Z.string()])`)).rejects.toMatchObject({
+        code: 'INVALID_DEFINITION',
+        message: expect.stringContaining("Option 1 of the discriminated union at path '' must be an object with a literal 'kind' field."),
+        loc: { start: { line: 1, column: 66 } },
+      });
+      await expect(
+        parser.parse('Z.object({ event: Z.discriminatedUnion("kind", [Z.object({ kind: Z.string() })]) })'),
+      ).rejects.toThrow("Option 0 of the discriminated union at path 'event' must be an object with a literal 'kind' field.");
+      await expect(parser.parse(`Z.discriminatedUnion("kind", [${event('a')}, ${event('a')}])`)).rejects.toThrow(
+        `Duplicate discriminator value "a" for 'kind' at path ''.`,
+      );
+    });
+
+    it('should merge options by discriminator value', async () => {
+      const { definition } = await parser.parse(
+        `Z.discriminatedUnion("kind", [${event('a', ', x: Z.string()')}, ${event('b')}])`,
+        `Z.discriminatedUnion("kind", [${event('a', ', x: Z.string().min(1)')}, ${event('c')}])`,
+      );
+      expect(definition).toEqual({
+        type: 'discriminatedUnion',
+        discriminator: 'kind',
+        options: [
+          { type: 'object', fields: { kind: { type: 'literal', value: 'a' }, x: { type: 'string', validations: { min: 1 } } } },
+          { type: 'object', fields: { kind: { type: 'literal', value: 'b' } } },
+          { type: 'object', fields: { kind: { type: 'literal', value: 'c' } } },
+        ],
+      });
+
+      await expect(
+        parser.parse(
+          `Z.discriminatedUnion("kind", [${event('a')}])`,
+          'Z.discriminatedUnion("type", [Z.object({ type: Z.literal("a") })])',
+        ),
+      ).rejects.toMatchObject({ code: 'TYPE_MISMATCH' });
+    });
+
+    it('should merge both sides of an intersection', async () => {
+      const { definition } = await parser.parse(
+        'Z.intersection(Z.object({ id: Z.string() }), Z.object({ name: Z.string() }))',
+        'Z.intersection(Z.object({ id: Z.string().uuid() }), Z.object({ age: Z.number() }))',
+      );
+      expect(definition).toEqual({
+        type: 'intersection',
+        left: { type: 'object', fields: { id: { type: 'string', validations: { uuid: true } } } },
+        right: { type: 'object', fields: { name: { type: 'string' }, age: { type: 'number' } } },
+      });
+    });
+  });
+
+  describe('Schema References', () => {
+    const address: ZontaxDefinition = {
+      type: 'object',
+      fields: { street: { type: 'string' }, city: { type: 'string', validations: { min: 1 } } },
+    };
+    const source = 'Z.object({ home: Z.ref("Address"), work: Z.ref("Address").optional() })';
+
+    it('should keep refs to registered definitions', async () => {
+      const parser = new ZontaxParser({ definitions: { Address: address } });
+      const { schema, definition } = await parser.parse(source);
+      const { fields } = definition as ZontaxObjectDefinition;
+      expect(isRefDefinition(fields.home)).toBe(true);
+      expect(fields).toEqual({
+        home: { type: 'ref', name: 'Address' },
+        work: { type: 'ref', name: 'Address', optional: true },
+      });
+      expect(schema).toBe('z.object({ home: Address, work: Address.optional() })');
+
+      const zodSchema = parser.toZod(definition);
+      expect(zodSchema.safeParse({ home: { street: 'a', city: 'b' } }).success).toBe(true);
+      expect(zodSchema.safeParse({ home: { street: 'a', city: '' } }).success).toBe(false);
+    });
+
+    it('should inline refs when inlineRefs is set', async () => {
+      const parser = new ZontaxParser({ inlineRefs: true });
+      parser.registerDefinition('Address', address);
+      const { schema, definition } = await parser.parse(source);
+      expect((definition as ZontaxObjectDefinition).fields).toEqual({ home: address, work: { ...address, optional: true } });
+      expect(schema).toBe(
+        'z.object({ home: z.object({ street: z.string(), city: z.string().min(1) }), work: z.object({ street: z.string(), city: z.string().min(1) }).optional() })',
+      );
+      expect(parser.getDefinitions()).toEqual({ Address: address });
+    });
+
+    it('should look up unregistered names through resolveRef once per parse', async () => {
+      const resolveRef = jest.fn(async (name: string) => (name === 'Address' ? address : undefined));
+      const parser = new ZontaxParser({ resolveRef, inlineRefs: true });
+      const { definition } = await parser.parse(source, 'Z.object({ billing: Z.ref("Address") })');
+      expect((definition as ZontaxObjectDefinition).fields.billing).toEqual(address);
+      expect(resolveRef).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report missing refs and ref cycles', async () => {
+      const parser = new ZontaxParser({
+        definitions: {
+          A: { type: 'object', fields: { b: { type: 'ref', name: 'B' } } },
+          B: { type: 'array', of: { type: 'ref', name: 'A' } },
+        },
+      });
+      await expect(parser.parse('Z.object({ x: Z.ref("Missing") })')).rejects.toMatchObject({
+        code: 'UNRESOLVED_REF',
+        message: "Unresolved reference 'Missing' at path 'x'.",
+        loc: { start: { line: 1, column: 14 } },
+        path: ['x'],
+      });
+      await expect(parser.parse('Z.ref("A")')).rejects.toMatchObject({
+        code: 'REF_CYCLE',
+        message: "Reference cycle at path 'b.[]': A -> B -> A.",
+      });
+      await expect(parser.parse('Z.ref("not-a-name")')).rejects.toMatchObject({ code: 'INVALID_DEFINITION' });
+      expect(() => parser.registerDefinition('not-a-name', address)).toThrow(ZontaxMergeError);
+
+      const { diagnostics } = await parser.parseWithDiagnostics('Z.object({ x: Z.ref("Missing"), y: Z.ref("Address") })');
+      expect(diagnostics.map((d) => d.code)).toEqual(['UNRESOLVED_REF', 'UNRESOLVED_REF']);
+    });
+
+    it('should not merge refs to different names', async () => {
+      const parser = new ZontaxParser({ definitions: { Address: address, Other: address } });
+      await expect(parser.parse('Z.object({ a: Z.ref("Address") })', 'Z.object({ a: Z.ref("Other") })')).rejects.toMatchObject({
+        code: 'TYPE_MISMATCH',
+        message: "Reference mismatch at schema index 1 for field 'a': Cannot merge reference 'Other' into 'Address'.",
+      });
+    });
+  });
+
+  describe('Recursive Schemas', () => {
+    const tree = 'Z.object({ name: Z.string(), children: Z.array(Z.self()) })';
+    const valid = { name: 'root', children: [{ name: 'leaf', children: [] }] };
+    const invalid = { name: 'root', children: [{ name: 1, children: [] }] };
+
+    it('should represent Z.self() without expanding it', async () => {
+      const parser = new ZontaxParser();
+      const { schema, definition } = await parser.parse(tree);
+      const children = (definition as ZontaxObjectDefinition).fields.children as ZontaxArrayDefinition;
+      expect(isSelfDefinition(children.of)).toBe(true);
+      expect(definition).toEqual({
+        type: 'object',
+        fields: { name: { type: 'string' }, children: { type: 'array', of: { type: 'self' } } },
+      });
+      expect(schema).toBe(
+        '(() => { const self = z.object({ name: z.string(), children: z.array(z.lazy(() => self)) }); return self; })()',
+      );
+
+      // zod-subset-parser has no `.lazy()` or bindings, so the emitted code is checked by running it
+      const evaluated = new Function('z', `return ${schema}`)(z4);
+      expect(evaluated.safeParse(valid).success).toBe(true);
+      expect(evaluated.safeParse(invalid).success).toBe(false);
+      expect(parser.toZod(definition).safeParse(valid).success).toBe(true);
+      expect(parser.toZod(definition).safeParse(invalid).success).toBe(false);
+    });
+
+    it('should bind Z.self() to the nearest enclosing object', async () => {
+      const { schema } = await new ZontaxParser().parse(
+        'Z.object({ menu: Z.object({ label: Z.string(), items: Z.array(Z.self()) }).optional() })',
+      );
+      expect(schema).toBe(
+        'z.object({ menu: (() => { const self = z.object({ label: z.string(), items: z.array(z.lazy(() => self)) }); return self; })().optional() })',
+      );
+      await expect(new ZontaxParser().parse('Z.array(Z.self())')).rejects.toMatchObject({
+        code: 'INVALID_DEFINITION',
+        message: expect.stringContaining("'.self()' can only be used inside a Z.object() shape at path ''."),
+      });
+    });
+
+    it('should allow cycles through Z.lazy() and never inline them', async () => {
+      const parser = new ZontaxParser({
+        inlineRefs: true,
+        definitions: {
+          Comment: {
+            type: 'object',
+            fields: { text: { type: 'string' }, replies: { type: 'array', of: { type: 'lazy', name: 'Comment' } } },
+          },
+        },
+      });
+      const { schema, definition } = await parser.parse('Z.object({ thread: Z.ref("Comment"), pinned: Z.lazy("Comment") })');
+      const { fields } = definition as ZontaxObjectDefinition;
+      expect(isLazyDefinition(fields.pinned)).toBe(true);
+      expect(((fields.thread as ZontaxObjectDefinition).fields.replies as ZontaxArrayDefinition).of).toEqual({ type: 'lazy', name: 'Comment' });
+      expect(schema).toBe(
+        'z.object({ thread: z.object({ text: z.string(), replies: z.array(z.lazy(() => Comment)) }), pinned: z.lazy(() => Comment) })',
+      );
+
+      const zodSchema = parser.toZod(definition);
+      expect(zodSchema.safeParse({ thread: { text: 'a', replies: [{ text: 'b', replies: [] }] }, pinned: { text: 'c', replies: [] } }).success).toBe(true);
+      expect(zodSchema.safeParse({ thread: { text: 'a', replies: [{ replies: [] }] }, pinned: { text: 'c', replies: [] } }).success).toBe(false);
+
+      await expect(parser.parse('Z.lazy("Missing")')).rejects.toMatchObject({ code: 'UNRESOLVED_REF' });
+    });
+
+    it('should clone and merge definitions that contain object cycles', async () => {
+      const node: ZontaxObjectDefinition = { type: 'object', fields: { name: { type: 'string' } } };
+      node.fields.next = node;
+      const parser = new ZontaxParser({ inlineRefs: true, definitions: { Node: node } });
+      await expect(parser.parse('Z.object({ a: Z.ref("Node") })', 'Z.object({ a: Z.ref("Node").optional() })')).rejects.toMatchObject({
+        code: 'INVALID_DEFINITION',
+        message: 'Definition contains an object cycle. Use Z.self() or Z.lazy() for recursion.',
+      });
+    });
+  });
+
+  describe('Custom Error Messages', () => {
+    const parser = new ZontaxParser();
+
+    it('should store messages of validations and types', async () => {
+      const { definition } = await parser.parse(
+        'Z.object({ name: Z.string("Must be text").min(3, "Too short").email({ message: "Invalid email" }), age: Z.number().int({ error: "Whole years", params: { unit: "years" } }) }, "Expected a user")',
+      );
+      const { fields } = definition as ZontaxObjectDefinition;
+      expect(definition.typeMessage).toEqual({ message: 'Expected a user' });
+      expect(fields.name).toEqual({
+        type: 'string',
+        typeMessage: { message: 'Must be text' },
+        validations: { email: true, min: 3 },
+        messages: { email: { message: 'Invalid email' }, min: { message: 'Too short' } },
+      });
+      expect(fields.age.messages).toEqual({ int: { message: 'Whole years', params: { unit: 'years' } } });
+    });
+
+    it('should keep IP versions apart from their messages', async () => {
+      const { definition } = await parser.parse('Z.object({ a: Z.string().ip({ version: "v6", message: "IPv6 only" }), b: Z.string().ipv4("IPv4 only") })');
+      const { fields } = definition as ZontaxObjectDefinition;
+      expect(fields.a.validations).toEqual({ ip: { version: 'v6' } });
+      expect(fields.a.messages).toEqual({ ip: { message: 'IPv6 only' } });
+      expect(fields.b.messages).toEqual({ ip: { message: 'IPv4 only' } });
+    });
+
+    it('should reject invalid messages and messages on transforms', async () => {
+      await expect(parser.parse('Z.string().min(3, 42)')).rejects.toMatchObject({
+        code: 'UNSUPPORTED_VALUE',
+        message: expect.stringContaining("Invalid error message for '.min()' at path ''."),
+      });
+      await expect(parser.parse('Z.string().email({ message: "a", error: "b" })')).rejects.toMatchObject({ code: 'UNSUPPORTED_VALUE' });
+      await expect(parser.parse('Z.string().email({ abort: true })')).rejects.toMatchObject({ code: 'UNSUPPORTED_VALUE' });
+      await expect(parser.parse('Z.string().trim("Trimmed")')).rejects.toMatchObject({ code: 'UNSUPPORTED_VALUE' });
+    });
+
+    it('should merge messages, with later sources winning', async () => {
+      const { definition } = await parser.parse(
+        'Z.string().min(3, "Too short").max(10, "Too long")',
+        'Z.string("Not text").min(3, "Trop court")',
+      );
+      expect(definition.validations).toEqual({ min: 3, max: 10 });
+      expect(definition.messages).toEqual({ min: { message: 'Trop court' }, max: { message: 'Too long' } });
+      expect(definition.typeMessage).toEqual({ message: 'Not text' });
+    });
+
+    it('should emit message for Zod 3 and error for Zod 4', async () => {
+      const source = 'Z.object({ name: Z.string("Must be text").min(3, "Too short").email("Invalid email"), tags: Z.array(Z.string(), "Expected a list") })';
+      const { schema: schema4 } = await parser.parse(source);
+      const { schema: schema3 } = await new ZontaxParser({ zodVersion: '3' }).parse(source);
+      expect(schema4).toBe(
+        'z.object({ name: z.string({ error: "Must be text" }).email({ error: "Invalid email" }).min(3, { error: "Too short" }), tags: z.array(z.string(), { error: "Expected a list" }) })',
+      );
+      expect(schema3).toBe(
+        'z.object({ name: z.string({ message: "Must be text" }).email({ message: "Invalid email" }).min(3, { message: "Too short" }), tags: z.array(z.string(), { message: "Expected a list" }) })',
+      );
+
+      const result = parseZodString(schema4).safeParse({ name: 'ab', tags: 1 });
+      expect(result.error.issues.map((issue: any) => issue.message)).toEqual(['Invalid email', 'Too short', 'Expected a list']);
+    });
+
+    it('should only fold Zod 4 formats without a message', async () => {
+      expect((await parser.parse('Z.string().email("Invalid email")')).schema).toBe('z.string().email({ error: "Invalid email" })');
+      expect((await parser.parse('Z.number("Not a number").int()')).schema).toBe('z.number({ error: "Not a number" }).int()');
+      expect((await parser.parse('Z.string().uuid().min(1, "Required")')).schema).toBe('z.uuid().min(1, { error: "Required" })');
+    });
+  });
+
+  describe('Merge Strategies', () => {
+    const registrations = [
+      [{ name: 'label', allowedOn: ['string'], args: ['string'] }],
+      { namespace: 'ui', extensions: [{ name: 'label', allowedOn: ['string'], args: ['string'] }] },
+    ];
+    const parser = new ZontaxParser({}, registrations);
+
+    it('should keep the default behavior without merge options', async () => {
+      await expect(parser.parse('Z.string().min(3)', 'Z.string().min(5)')).rejects.toMatchObject({ code: 'VALIDATION_CONFLICT' });
+      const { definition } = await parser.parse('Z.string().label("A").describe("a")', 'Z.string().label("B").describe("b").optional()', 'Z.string()');
+      expect(definition).toEqual({ type: 'string', extensions: { label: { value: 'B' } }, description: 'b', optional: true });
+    });
+
+    it('should resolve validation conflicts per parse call', async () => {
+      const sources = ['Z.string().min(3).max(10)', 'Z.string().min(5).max(20)'];
+      const first = await parser.parse(...sources, { merge: { validations: 'first-wins' } });
+      expect(first.definition.validations).toEqual({ min: 3, max: 10 });
+      const last = await parser.parse(...sources, { merge: { validations: 'last-wins' } });
+      expect(last.definition.validations).toEqual({ min: 5, max: 20 });
+      const strictest = await parser.parse(...sources, { merge: { validations: 'strictest-wins' } });
+      expect(strictest.definition.validations).toEqual({ min: 5, max: 10 });
+      expect(strictest.schema).toBe('z.string().max(10).min(5)');
+
+      const ip = await parser.parse('Z.string().ip()', 'Z.string().ipv4()', { merge: { validations: 'strictest-wins' } });
+      expect(ip.definition.validations).toEqual({ ip: { version: 'v4' } });
+      // Regexes have no order, so they still conflict
+      await expect(
+        parser.parse('Z.string().regex(/^a$/)', 'Z.string().regex(/^b$/)', { merge: { validations: 'strictest-wins' } }),
+      ).rejects.toMatchObject({ code: 'VALIDATION_CONFLICT' });
+    });
+
+    it('should keep the message of the validation value that won', async () => {
+      const { definition } = await parser.parse('Z.string().min(5, "Too short")', 'Z.string().min(3, "Trop court")', {
+        merge: { validations: 'strictest-wins' },
+      });
+      expect(definition.validations).toEqual({ min: 5 });
+      expect(definition.messages).toEqual({ min: { message: 'Too short' } });
+    });
+
+    it('should detect extension conflicts, with strategies per namespace', async () => {
+      const strict = new ZontaxParser({ merge: { extensions: 'error', namespaces: { ui: 'first-wins' } } }, registrations);
+      await expect(strict.parse('Z.string().label("A")', 'Z.string().label("B")')).rejects.toMatchObject({
+        code: 'EXTENSION_CONFLICT',
+        sourceIndex: 1,
+        message: expect.stringContaining("Extension conflict at schema index 1 for field '': Mismatch for extension 'label'."),
+      });
+      const { definition } = await strict.parse('Z.string().ui$label("A")', 'Z.string().ui$label("B")');
+      expect(definition.namespaces).toEqual({ ui: { label: { value: 'A' } } });
+
+      // The options of a call are merged over the parser's, namespace by namespace
+      const overridden = await strict.parse('Z.string().ui$label("A")', 'Z.string().ui$label("B")', {
+        merge: { namespaces: { ui: 'last-wins' } },
+      });
+      expect(overridden.definition.namespaces).toEqual({ ui: { label: { value: 'B' } } });
+
+      const { diagnostics } = await strict.parseWithDiagnostics('Z.string().label("A")', 'Z.string().label("B")');
+      expect(diagnostics.map((d) => d.code)).toEqual(['EXTENSION_CONFLICT']);
+    });
+
+    it('should pass conflicts to a custom resolver', async () => {
+      const conflicts: ZontaxMergeConflict[] = [];
+      const resolver = (conflict: ZontaxMergeConflict) => {
+        conflicts.push(conflict);
+        return `${conflict.base} / ${conflict.overlay}`;
+      };
+      const { definition } = await parser.parse(
+        'Z.object({ name: Z.string().ui$label("Name") })',
+        'Z.object({ name: Z.string().ui$label("Nom") })',
+        { merge: { namespaces: { ui: resolver } } },
+      );
+      expect((definition as ZontaxObjectDefinition).fields.name.namespaces).toEqual({ ui: { label: { value: 'Name / Nom' } } });
+      expect(conflicts).toEqual([{ kind: 'extension', key: 'ui$label', path: ['name'], base: 'Name', overlay: 'Nom', sourceIndex: 1 }]);
+    });
+
+    it('should let optional and nullable be turned off', async () => {
+      const sources = ['Z.string().optional()', 'Z.string().nullable()'];
+      expect((await parser.parse(...sources)).definition).toEqual({ type: 'string', optional: true, nullable: true });
+      expect((await parser.parse(...sources, { merge: { modifiers: 'last-wins' } })).definition).toEqual({ type: 'string', nullable: true });
+      expect((await parser.parse(...sources, { merge: { modifiers: 'strictest-wins' } })).definition).toEqual({ type: 'string' });
+      await expect(parser.parse(...sources, { merge: { modifiers: 'error' } })).rejects.toMatchObject({ code: 'MERGE_CONFLICT' });
+    });
+
+    it('should apply strategies to descriptions and defaults', async () => {
+      const sources = ['Z.string().describe("a").default("x")', 'Z.string().describe("b").default("y")'];
+      const { definition } = await parser.parse(...sources, { merge: { description: 'first-wins' } });
+      expect(definition).toMatchObject({ description: 'a', defaultValue: 'y' });
+      await expect(parser.parse(...sources, { merge: { defaultValue: 'error' } })).rejects.toMatchObject({
+        code: 'MERGE_CONFLICT',
+        message: expect.stringContaining("Merge conflict at schema index 1 for field '': Mismatch for 'defaultValue'."),
+      });
+    });
+  });
+
+  describe('Merge Provenance', () => {
+    const parser = new ZontaxParser({ mode: 'loose' }, [
+      { namespace: 'ui', extensions: [{ name: 'label', allowedOn: ['string'], args: ['string'] }] },
+    ]);
+
+    it('should only return provenance when asked for', async () => {
+      const result = await parser.parse('Z.string()');
+      expect(result.provenance).toBeUndefined();
+    });
+
+    it('should record the winning source and location of each property', async () => {
+      const { provenance } = await parser.parse(
+        'Z.object({ name: Z.string().min(3) })',
+        'Z.object({\n  name: Z.string().ui$label("Name").describe("Full name")\n})',
+        { provenance: true },
+      );
+      expect(provenance!['']['type']).toMatchObject({ sourceIndex: 1, value: 'object', overridden: [] });
+      expect(provenance!['name']['validations.min']).toEqual({
+        sourceIndex: 0,
+        loc: { start: { line: 1, column: 28, offset: 28 }, end: { line: 1, column: 34, offset: 34 } },
+        value: 3,
+        overridden: [],
+      });
+      expect(provenance!['name']['namespaces.ui.label']).toMatchObject({
+        sourceIndex: 1,
+        loc: { start: { line: 2, column: 19 } },
+        value: 'Name',
+      });
+      expect(provenance!['name']['description']).toMatchObject({ sourceIndex: 1, value: 'Full name' });
+    });
+
+    it('should list the values a merge strategy overrode', async () => {
+      const { provenance } = await parser.parse(
+        'Z.string().min(3).describe("a")',
+        'Z.string().min(5).describe("b")',
+        'Z.string().min(4)',
+        { merge: { validations: 'strictest-wins' }, provenance: true },
+      );
+      expect(provenance!['']['validations.min']).toMatchObject({
+        sourceIndex: 1,
+        value: 5,
+        overridden: [
+          { sourceIndex: 0, value: 3 },
+          { sourceIndex: 2, value: 4 },
+        ],
+      });
+      expect(provenance!['']['description']).toMatchObject({ sourceIndex: 1, value: 'b', overridden: [{ sourceIndex: 0, value: 'a' }] });
+    });
+
+    it('should key nested fields by path', async () => {
+      const { provenance } = await parser.parse(
+        'Z.object({ tags: Z.array(Z.string().max(5)), point: Z.tuple([Z.number(), Z.number().int()]) })',
+        { provenance: true },
+      );
+      expect(Object.keys(provenance!)).toEqual(['', 'tags', 'tags.[]', 'point', 'point.0', 'point.1']);
+      expect(provenance!['tags.[]']['validations.max']).toMatchObject({ sourceIndex: 0, value: 5 });
+      expect(provenance!['point.1']['validations.int']).toMatchObject({ value: true });
+    });
   });
 
   describe('Zod Version Support', () => {
     it('should default to Zod 4', async () => {
       const parser = new ZontaxParser();
       const { schema } = await parser.parse('Z.string().describe("test")');
-      expect(schema).toBe('z.string().describe("test")');
+      expect(schema).toBe('z.string().meta({ description: "test" })');
     });
 
     it('should support explicit Zod 4', async () => {
       const parser = new ZontaxParser({ zodVersion: '4' });
       const { schema } = await parser.parse('Z.string().describe("test")');
-      expect(schema).toBe('z.string().describe("test")');
+      expect(schema).toBe('z.string().meta({ description: "test" })');
     });
 
     it('should support explicit Zod 3', async () => {
@@ -293,7 +975,6 @@ describe('ZontaxParser', () => {
         'Z.string().optional()',
         'Z.string().nullable()',
         'Z.string().default("test")',
-        'Z.number().int()',
         'Z.number().positive()',
         'Z.number().negative()'
       ];
@@ -331,9 +1012,8 @@ describe('ZontaxParser', () => {
 
       const chainedMethods = [
         'Z.string().min(3).max(10).optional()',
-        'Z.string().email().describe("Email address")',
-        'Z.number().int().positive().default(1)',
-        'Z.string().min(1).nullable().describe("Name")'
+        'Z.number().positive().default(1)',
+        'Z.string().min(1).nullable()'
       ];
 
       for (const input of chainedMethods) {
@@ -357,6 +1037,54 @@ describe('ZontaxParser', () => {
       expect(result3.schema).toBe(result4.schema);
     });
 
+    it('should emit idiomatic calls for each version', async () => {
+      const parser3 = new ZontaxParser({ zodVersion: '3' });
+      const parser4 = new ZontaxParser({ zodVersion: '4' });
+      const cases = [
+        ['Z.string().email().min(3)', 'z.string().min(3).email()', 'z.email().min(3)'],
+        ['Z.string().uuid()', 'z.string().uuid()', 'z.uuid()'],
+        ['Z.string().ipv6()', 'z.string().ip({"version":"v6"})', 'z.ipv6()'],
+        ['Z.number().int().positive()', 'z.number().positive().int()', 'z.int().positive()'],
+        ['Z.number().finite()', 'z.number().finite()', 'z.number()'],
+        ['Z.string().describe("Name")', 'z.string().describe("Name")', 'z.string().meta({ description: "Name" })'],
+        ['Z.object({ a: Z.string() }).strict()', 'z.object({ a: z.string() }).strict()', 'z.strictObject({ a: z.string() })'],
+        ['Z.object({}).passthrough()', 'z.object({  }).passthrough()', 'z.looseObject({  })'],
+      ];
+
+      for (const [input, expected3, expected4] of cases) {
+        expect((await parser3.parse(input)).schema).toBe(expected3);
+        expect((await parser4.parse(input)).schema).toBe(expected4);
+      }
+      expect(() => parseZodString('z.object({ id: z.uuid().describe("x"), n: z.int().positive() })')).not.toThrow();
+    });
+
+    it('should keep formats chained where a top-level call would change the result', async () => {
+      const parser = new ZontaxParser({ zodVersion: '4' });
+      // z.email().trim() would check the untrimmed value
+      expect((await parser.parse('Z.string().trim().email()')).schema).toBe('z.string().trim().email()');
+      expect((await parser.parse('Z.string().email().url()')).schema).toBe('z.string().url().email()');
+    });
+
+    it('should report definitions the target version cannot express', async () => {
+      const definition: ZontaxDefinition = { type: 'object', fields: { host: { type: 'string', validations: { ip: true } } } };
+      expect(checkZodCompatibility(definition, '3')).toEqual([]);
+      expect(checkZodCompatibility(definition, '4')).toEqual([
+        {
+          path: ['host'],
+          message: "Zod 4 has no version-independent IP check at path 'host'. Use '.ipv4()' or '.ipv6()'.",
+        },
+      ]);
+
+      const parser = new ZontaxParser({ zodVersion: '4' });
+      await expect(parser.parse('Z.object({ host: Z.string().ip() })')).rejects.toMatchObject({
+        code: 'UNSUPPORTED_CONVERSION',
+        path: ['host'],
+      });
+      const { schema, diagnostics } = await parser.parseWithDiagnostics('Z.object({ host: Z.string().ip().min(1) })');
+      expect(schema).toBe('z.object({ host: z.string().min(1) })');
+      expect(diagnostics.map((d) => d.code)).toEqual(['UNSUPPORTED_CONVERSION']);
+    });
+
     it('should handle nested structures in both versions', async () => {
       const parser3 = new ZontaxParser({ zodVersion: '3' });
       const parser4 = new ZontaxParser({ zodVersion: '4' });
@@ -364,9 +1092,9 @@ describe('ZontaxParser', () => {
       const input = 'Z.object({user: Z.object({name: Z.string().min(1), age: Z.number().int()})})';
       const result3 = await parser3.parse(input);
       const result4 = await parser4.parse(input);
-      
-      expect(result3.schema).toBe(result4.schema);
+
       expect(result3.schema).toBe('z.object({ user: z.object({ name: z.string().min(1), age: z.number().int() }) })');
+      expect(result4.schema).toBe('z.object({ user: z.object({ name: z.string().min(1), age: z.int() }) })');
     });
   });
 
@@ -519,4 +1247,332 @@ describe('ZontaxParser', () => {
         await expect(parser.parse(schema)).rejects.toThrow("Extension 'test$restricted' is not allowed on path 'user.address.country'.");
     });
   });
-});
\ No newline at end of file
+
+  describe('Extension Signature Validation', () => {
+    const signatureSchema: Extension[] = [
+      { name: 'label', allowedOn: ['string'], args: ['string'] },
+      { name: 'range', allowedOn: ['number'], args: ['number', 'number'] },
+      { name: 'hidden', allowedOn: ['string', 'number'], args: [] },
+    ];
+    const parser = new ZontaxParser({}, [{ namespace: 'ui', extensions: signatureSchema }]);
+
+    it('should accept extensions that match their registration', async () => {
+      const { definition } = await parser.parse('Z.object({ name: Z.string().ui$label("Name"), age: Z.number().ui$range(0, 120).ui$hidden() })');
+      const objDef = definition as ZontaxObjectDefinition;
+      expect(objDef.fields.name.namespaces!.ui.label.value).toBe('Name');
+      expect(objDef.fields.age.namespaces!.ui.range.value).toEqual([0, 120]);
+    });
+
+    it('should reject an extension applied to a type not listed in allowedOn', async () => {
+      await expect(parser.parse('Z.object({ age: Z.number().ui$label("Age") })')).rejects.toThrow(
+        "Extension 'ui$label' is not allowed on type 'number' at path 'age'. Expected usage: ui$label(string) on string."
+      );
+    });
+
+    it('should reject calls with the wrong argument types', async () => {
+      await expect(parser.parse('Z.object({ name: Z.string().ui$label(42) })')).rejects.toThrow(
+        "Invalid arguments for extension 'ui$label' at path 'name': expected ui$label(string), received (number)."
+      );
+    });
+
+    it('should reject calls with the wrong argument count', async () => {
+      await expect(parser.parse('Z.object({ age: Z.number().ui$range(0) })')).rejects.toThrow(
+        "Invalid arguments for extension 'ui$range' at path 'age': expected ui$range(number, number), received (number)."
+      );
+      await expect(parser.parse('Z.object({ age: Z.number().ui$hidden(true) })')).rejects.toThrow(ZontaxMergeError);
+    });
+
+    it('should not accept arrays for object arguments', async () => {
+      const objectParser = new ZontaxParser({}, [{ namespace: 'ui', extensions: [{ name: 'style', allowedOn: ['string'], args: ['object'] }] }]);
+      const { definition } = await objectParser.parse('Z.string().ui$style({ bold: true })');
+      expect(definition.namespaces!.ui.style.value).toEqual({ bold: true });
+      await expect(objectParser.parse('Z.object({ name: Z.string().ui$style([1, 2]) })')).rejects.toThrow(
+        "Invalid arguments for extension 'ui$style' at path 'name': expected ui$style(object), received (array)."
+      );
+    });
+
+    describe('with argument schemas', () => {
+      const widgetSchema: Extension[] = [
+        {
+          name: 'widget',
+          allowedOn: ['string'],
+          args: [z4.object({ kind: z4.enum(['select', 'radio']), options: z4.array(z4.string()).min(1) })],
+        },
+        { name: 'size', allowedOn: ['string'], args: [{ type: 'enum', values: ['sm', 'md', 'lg'] }, 'number'] },
+      ];
+      const schemaParser = new ZontaxParser({}, [{ namespace: 'ui', extensions: widgetSchema }]);
+
+      it('should accept values that match the schemas', async () => {
+        const { definition } = await schemaParser.parse('Z.string().ui$widget({ kind: "select", options: ["a", "b"] }).ui$size("md", 2)');
+        expect(definition.namespaces!.ui.widget.value).toEqual({ kind: 'select', options: ['a', 'b'] });
+        expect(definition.namespaces!.ui.size.value).toEqual(['md', 2]);
+      });
+
+      it('should report mismatches with the field path and the argument path', async () => {
+        await expect(
+          schemaParser.parse('Z.object({ role: Z.string().ui$widget({ kind: "dropdown", options: [] }) })'),
+        ).rejects.toMatchObject({
+          code: 'EXTENSION_ARGS_MISMATCH',
+          path: ['role'],
+          message:
+            "Invalid argument 1 for extension 'ui$widget' at path 'role': Invalid option: expected one of \"select\"|\"radio\" at 'kind'; Too small: expected array to have >=1 items at 'options'.",
+        });
+        await expect(schemaParser.parse('Z.object({ name: Z.string().ui$size("xl", 2) })')).rejects.toThrow(
+          "Invalid argument 1 for extension 'ui$size' at path 'name': Invalid option: expected one of \"sm\"|\"md\"|\"lg\".",
+        );
+        await expect(schemaParser.parse('Z.number().ui$size("sm", 2)')).rejects.toThrow(
+          'Expected usage: ui$size(Z.enum(["sm", "md", "lg"]), number) on string.',
+        );
+      });
+
+      it('should reject registrations with invalid argument schemas', () => {
+        // Deliberately invalid: the argument schema is neither a Zod schema nor a definition
+        const registration = [{ name: 'bad', allowedOn: ['string'], args: [{ kind: 'select' }] }] as unknown as Extension[];
+        expect(() => new ZontaxParser({}, [registration])).toThrow();
+      });
+
+      it('should infer argument definitions from a loose definition', async () => {
+        const looseParser = new ZontaxParser({ mode: 'loose' });
+        const { definition } = await looseParser.parse('Z.object({ role: Z.string().ui$widget({ kind: "select", options: ["a"] }) })');
+        expect(ZontaxParser.generateSchemaFromDefinition(definition, 'ui')[0].args).toEqual([
+          { type: 'object', fields: { kind: { type: 'string' }, options: { type: 'array', of: { type: 'string' } } } },
+        ]);
+      });
+    });
+
+    it('should not enforce signatures in loose mode', async () => {
+      const looseParser = new ZontaxParser({ mode: 'loose' }, [{ namespace: 'ui', extensions: signatureSchema }]);
+      const { definition } = await looseParser.parse('Z.number().ui$label(42)');
+      expect(definition.namespaces!.ui.label.value).toBe(42);
+    });
+  });
+
+  describe('Extension Requirements', () => {
+    const registrations = [
+      {
+        namespace: 'ui',
+        extensions: [
+          { name: 'label', allowedOn: ['string', 'number', 'object'], args: ['string'], requiredOnPath: ['user.*'] },
+          { name: 'hidden', allowedOn: ['string', 'number'], args: [], exclusiveWith: ['label'] },
+        ],
+      },
+      {
+        namespace: 'doc',
+        extensions: [{ name: 'description', allowedOn: ['string'], args: ['string'] }],
+        rules: [{ extension: 'description', requiredOn: ['string'], exclusiveWith: ['ui$hidden'] }],
+      },
+    ];
+    const parser = new ZontaxParser({}, registrations);
+
+    it('should accept definitions that satisfy every rule', async () => {
+      const { definition } = await parser.parse(
+        'Z.object({ user: Z.object({ name: Z.string().ui$label("Name").doc$description("Full name"), age: Z.number().ui$label("Age") }), id: Z.number().ui$hidden() })',
+      );
+      expect((definition as ZontaxObjectDefinition).fields.id.namespaces!.ui.hidden).toBeDefined();
+    });
+
+    it('should check the rules after merging all sources', async () => {
+      const base = 'Z.object({ user: Z.object({ name: Z.string() }) })';
+      const overlay = 'Z.object({ user: Z.object({ name: Z.string().ui$label("Name").doc$description("Full name") }) })';
+      await expect(parser.parse(base, overlay)).resolves.toBeDefined();
+      await expect(parser.parse(base)).rejects.toMatchObject({
+        code: 'EXTENSION_REQUIRED',
+        path: ['user', 'name'],
+        message: "Extension 'ui$label' is required on path 'user.name'.",
+      });
+    });
+
+    it('should report every violation with its path in diagnostics', async () => {
+      const { diagnostics } = await parser.parseWithDiagnostics(
+        'Z.object({ user: Z.object({ tags: Z.array(Z.object({ name: Z.string().ui$hidden().doc$description("Tag") })) }), note: Z.string().ui$label("Note").ui$hidden() })',
+      );
+      expect(diagnostics.map(({ code, path, message }) => ({ code, path, message }))).toEqual([
+        { code: 'EXTENSION_REQUIRED', path: ['user', 'tags'], message: "Extension 'ui$label' is required on path 'user.tags'." },
+        {
+          code: 'EXTENSION_EXCLUSIVE',
+          path: ['user', 'tags', 'name'],
+          message: "Extensions 'doc$description' and 'ui$hidden' cannot be used together at path 'user.tags.name'.",
+        },
+        { code: 'EXTENSION_EXCLUSIVE', path: ['note'], message: "Extensions 'ui$hidden' and 'ui$label' cannot be used together at path 'note'." },
+        { code: 'EXTENSION_REQUIRED', path: ['note'], message: "Extension 'doc$description' is required on type 'string' at path 'note'." },
+      ]);
+    });
+
+    it('should reject rules for unregistered extensions', () => {
+      expect(() => new ZontaxParser({}, [{ namespace: 'ui', extensions: [], rules: [{ extension: 'label', requiredOn: ['string'] }] }])).toThrow(
+        "Rule for unregistered extension 'ui$label'.",
+      );
+    });
+
+    it('should not enforce rules in loose mode', async () => {
+      const looseParser = new ZontaxParser({ mode: 'loose' }, registrations);
+      await expect(looseParser.parse('Z.object({ user: Z.object({ name: Z.string() }) })')).resolves.toBeDefined();
+    });
+  });
+
+  describe('Error Details', () => {
+    const parser = new ZontaxParser({}, [{ namespace: 'ui', extensions: uiSchema }]);
+
+    const catchError = async (...sources: string[]): Promise<ZontaxMergeError> => {
+      try {
+        await parser.parse(...sources);
+      } catch (error) {
+        return error as ZontaxMergeError;
+      }
+      throw new Error('Expected parse to fail');
+    };
+
+    it('should report syntax errors with their source index and location', async () => {
+      const error = await catchError('Z.string()', 'Z.object({\n  name: Z.string(,\n})');
+      expect(error).toBeInstanceOf(ZontaxMergeError);
+      expect(error.message).toBe('Invalid syntax in input');
+      expect(error.code).toBe('SYNTAX_ERROR');
+      expect(error.sourceIndex).toBe(1);
+      expect(error.loc!.start.line).toBe(2);
+      expect(error.loc!.start.column).toBe(17);
+    });
+
+    it('should locate unrecognized methods and include the field path', async () => {
+      const error = await catchError('Z.object({\n  user: Z.object({\n    name: Z.string().bogus()\n  })\n})');
+      expect(error.message).toBe("Unrecognized method '.bogus()'.");
+      expect(error.code).toBe('UNRECOGNIZED_METHOD');
+      expect(error.sourceIndex).toBe(0);
+      expect(error.path).toEqual(['user', 'name']);
+      expect(error.loc).toEqual({
+        start: { line: 3, column: 21, offset: 51 },
+        end: { line: 3, column: 28, offset: 58 },
+      });
+    });
+
+    it('should map locations back through multi-line string literals', async () => {
+      const error = await catchError('Z.object({ a: Z.string().describe("line 1\nline 2"),\n b: Z.string().bogus() })');
+      expect(error.loc!.start.line).toBe(3);
+      expect(error.loc!.start.column).toBe(15);
+    });
+
+    it('should report the conflicting source for merge errors', async () => {
+      const error = await catchError(
+        'Z.object({ user: Z.object({ name: Z.string() }) })',
+        'Z.object({ user: Z.object({ name: Z.string().ui$label("Name") }) })',
+        'Z.object({ user: Z.object({\n  name: Z.number()\n}) })',
+      );
+      expect(error.message).toBe("Type mismatch at schema index 2 for field 'user.name': Cannot merge type 'number' into 'string'.");
+      expect(error.code).toBe('TYPE_MISMATCH');
+      expect(error.sourceIndex).toBe(2);
+      expect(error.path).toEqual(['user', 'name']);
+      expect(error.loc!.start).toEqual({ line: 2, column: 10, offset: 38 });
+    });
+
+    it('should point validation conflicts at the conflicting call', async () => {
+      const error = await catchError('Z.object({ name: Z.string().min(3) })', 'Z.object({ name: Z.string().min(4) })');
+      expect(error.code).toBe('VALIDATION_CONFLICT');
+      expect(error.sourceIndex).toBe(1);
+      expect(error.loc!.start.column).toBe(28);
+      expect(error.loc!.end.column).toBe(34);
+    });
+
+    it('should tag input errors with a code and source index', async () => {
+      const longParser = new ZontaxParser({ maxInputLength: 20 });
+      await expect(longParser.parse('Z.string()', 'Z.string().describe("far too long")')).rejects.toMatchObject({
+        code: 'INPUT_TOO_LONG',
+        sourceIndex: 1,
+      });
+    });
+
+    it('should serialize error details', async () => {
+      const error = await catchError('Z.string().bogus()');
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        name: 'ZontaxMergeError',
+        code: 'UNRECOGNIZED_METHOD',
+        message: "Unrecognized method '.bogus()'.",
+        sourceIndex: 0,
+        loc: error.loc,
+        path: [],
+      });
+    });
+  });
+
+  describe('parseWithDiagnostics', () => {
+    const parser = new ZontaxParser({}, [{ namespace: 'ui', extensions: uiSchema }]);
+
+    it('should return an empty diagnostics list for valid sources', async () => {
+      const result = await parser.parseWithDiagnostics('Z.object({ name: Z.string().ui$label("Name") })');
+      expect(result.diagnostics).toEqual([]);
+      expect(result.schema).toBe('z.object({ name: z.string() })');
+    });
+
+    it('should collect every error across all sources and mark invalid fields', async () => {
+      const { definition, diagnostics } = await parser.parseWithDiagnostics(
+        'Z.object({ name: Z.string().bogus(), age: Z.number().ui$label("Age"), email: Z.string().email() })',
+        'Z.object({ name: Z.string().min(3), email: Z.number() })',
+        'Z.object({ broken: Z.string(, })',
+      );
+      expect(diagnostics.map((d) => [d.code, d.sourceIndex, d.path])).toEqual([
+        ['UNRECOGNIZED_METHOD', 0, ['name']],
+        ['EXTENSION_TYPE_NOT_ALLOWED', 0, ['age']],
+        ['SYNTAX_ERROR', 2, undefined],
+        ['TYPE_MISMATCH', 1, ['email']],
+      ]);
+      expect(diagnostics.every((d) => d.severity === 'error')).toBe(true);
+
+      const objDef = definition as ZontaxObjectDefinition;
+      expect(objDef.fields.name.invalid).toBe(true);
+      expect(objDef.fields.name.validations!.min).toBe(3);
+      expect(objDef.fields.age.invalid).toBe(true);
+      expect(objDef.fields.age.namespaces).toBeUndefined();
+      expect(objDef.fields.email.type).toBe('string');
+      expect(objDef.fields.email.invalid).toBe(true);
+    });
+
+    it('should recover unrecognized types as unknown so the schema string stays valid', async () => {
+      const { schema, definition, diagnostics } = await parser.parseWithDiagnostics('Z.object({ a: Z.foo(), b: Z.string(), c: Z.bar().min(3).optional() })');
+      expect(diagnostics.map((d) => [d.code, d.path])).toEqual([
+        ['UNRECOGNIZED_METHOD', ['a']],
+        ['UNRECOGNIZED_METHOD', ['c']],
+      ]);
+      expect((definition as ZontaxObjectDefinition).fields.a).toEqual({ type: 'unknown', invalid: true });
+      expect(schema).toBe('z.object({ a: z.unknown(), b: z.string(), c: z.unknown().optional() })');
+      expect(parseZodString(schema).safeParse({ a: 1, b: 'x' }).success).toBe(true);
+    });
+
+    it('should keep the first value on validation conflicts', async () => {
+      const { definition, diagnostics } = await parser.parseWithDiagnostics(
+        'Z.object({ name: Z.string().min(3) })',
+        'Z.object({ name: Z.string().min(4).max(10) })',
+      );
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe('VALIDATION_CONFLICT');
+      const nameDef = (definition as ZontaxObjectDefinition).fields.name;
+      expect(nameDef.validations).toEqual({ min: 3, max: 10 });
+      expect(nameDef.invalid).toBe(true);
+    });
+
+    it('should replace fields with unsupported values by an invalid placeholder', async () => {
+      const { definition, diagnostics } = await parser.parseWithDiagnostics(
+        'Z.object({ name: Z.string().describe(someVariable), age: Z.number() })',
+      );
+      expect(diagnostics.map((d) => d.code)).toEqual(['UNSUPPORTED_VALUE']);
+      const objDef = definition as ZontaxObjectDefinition;
+      expect(objDef.fields.name).toEqual({ type: 'unknown', invalid: true });
+      expect(objDef.fields.age.type).toBe('number');
+    });
+
+    it('should report warnings for overridden extensions and loose captures', async () => {
+      const { diagnostics } = await parser.parseWithDiagnostics(
+        'Z.object({ name: Z.string().ui$label("Name") })',
+        'Z.object({ name: Z.string().ui$label("Full name") })',
+      );
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({ severity: 'warning', code: 'EXTENSION_OVERRIDDEN', sourceIndex: 1, path: ['name'] });
+
+      const looseParser = new ZontaxParser({ mode: 'loose' });
+      const loose = await looseParser.parseWithDiagnostics('Z.string().author("John")');
+      expect(loose.diagnostics.map((d) => [d.severity, d.code])).toEqual([['warning', 'LOOSE_METHOD_CAPTURED']]);
+    });
+
+    it('should still throw from parse() on the first error', async () => {
+      await expect(parser.parse('Z.object({ name: Z.string().bogus(), age: Z.number().ui$label("Age") })'))
+        .rejects.toThrow("Unrecognized method '.bogus()'.");
+    });
+  });
+});
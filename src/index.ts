@@ -1,11 +1,65 @@
 import * as acorn from "acorn";
-import { z } from "zod";
+import { z, ZodTypeAny } from "zod";
+import type { ZodType as Zod4Type } from "zod/v4";
+import { ZontaxDiagnostic, ZontaxErrorCode, ZontaxMergeError, ZontaxSourcePosition, ZontaxSourceRange } from "./errors";
+
+import { fromZod } from "./from_zod";
+import { generateMock, GenerateMockOptions } from "./mock";
+import { printDefinition } from "./printer";
+import { findCatastrophicBacktracking } from "./regexp";
+import { toZod } from "./to_zod";
+import { validate, ZontaxValidationResult } from "./validate";
+import { checkZodCompatibility, getZodEmitter, stringifyValue } from "./zod_emitter";
+
+export * from "./diff";
+export * from "./errors";
+export * from "./from_zod";
+export * from "./json_schema";
+export * from "./mock";
+export * from "./openapi";
+export * from "./printer";
+export * from "./to_zod";
+export * from "./typescript";
+export * from "./validate";
+export { checkZodCompatibility } from "./zod_emitter";
+export type { ZodCompatibilityIssue } from "./zod_emitter";
+
+/** Anything with Zod's `safeParse()`, from Zod 3 or Zod 4 */
+export interface ExtensionZodSchema {
+  safeParse(value: unknown): { success: boolean; error?: { issues: { path: PropertyKey[]; message: string }[] } };
+}
+
+/**
+ * The type of one extension argument: a `typeof` name such as `"string"` (or
+ * `"array"`, `"null"`, `"any"`), a Zod schema, or a Zontax definition for
+ * registrations that need to stay serializable.
+ */
+export type ExtensionArgSchema = string | ExtensionZodSchema | ZontaxDefinition;
 
-export class ZontaxMergeError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "ZontaxMergeError";
+function isArgSchema(value: unknown): value is ExtensionZodSchema | ZontaxDefinition {
+  if (value === null || typeof value !== "object") return false;
+  return typeof (value as any).safeParse === "function" || typeof (value as any).type === "string";
+}
+
+/** The definition of an extension argument value, as used by generateSchemaFromDefinition() */
+function inferArgDefinition(value: unknown): ZontaxDefinition {
+  if (value === null) return { type: "null" };
+  if (Array.isArray(value)) {
+    const items = value.map(inferArgDefinition);
+    const same = items.every((item) => JSON.stringify(item) === JSON.stringify(items[0]));
+    return { type: "array", of: items.length > 0 && same ? items[0] : { type: "unknown" } };
   }
+  if (typeof value === "object") {
+    const fields: Record<string, ZontaxDefinition> = {};
+    for (const [key, item] of Object.entries(value as object)) {
+      fields[key] = inferArgDefinition(item);
+    }
+    return { type: "object", fields };
+  }
+  if (["string", "number", "boolean", "bigint"].includes(typeof value)) {
+    return { type: typeof value as "string" | "number" | "boolean" | "bigint" };
+  }
+  return { type: "unknown" };
 }
 
 // SECURITY NOTE: RegExp patterns in allowedOnPath are expected to be defined by 
@@ -13,36 +67,63 @@ export class ZontaxMergeError extends Error {
 // like "user.profile.*" or "^user\.address\.(street|city)$" are the intended use case.
 // The ReDoS validation below catches the most common problematic patterns while
 // allowing safe, developer-defined path matching expressions.
+const PathPatternsSchema = z
+  .array(z.union([z.string(), z.instanceof(RegExp)]))
+  .optional()
+  .refine((paths) => {
+    if (!paths) return true;
+    for (const path of paths) {
+      if (path instanceof RegExp) {
+        // Check for potentially dangerous RegExp patterns
+        const source = path.source;
+        if (source.includes('(.*)+') || source.includes('(.+)+') || 
+            source.includes('(.*)*') || source.includes('(.+)*') ||
+            source.includes('(.*)(.*)') || source.includes('(.+)(.+)')) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }, "RegExp patterns must not contain potentially dangerous constructs that could cause ReDoS");
+
+/** Completeness rules, checked on the merged definition of all sources in strict mode */
+const ExtensionRequirementShape = {
+  /** Every field of these schema types must have the extension */
+  requiredOn: z.array(z.string()).optional(),
+  /** Fields at these paths must have the extension, matched like `allowedOnPath` */
+  requiredOnPath: PathPatternsSchema,
+  /** Extensions that cannot be used on the same field. Names without `$` are in the same namespace */
+  exclusiveWith: z.array(z.string()).optional(),
+};
+
 export const ExtensionMethodSchema = z.object({
   name: z.string(),
   allowedOn: z.array(z.string()),
-  args: z.array(z.string()),
+  args: z.array(
+    z.union([
+      z.string(),
+      z.custom<ExtensionZodSchema | ZontaxDefinition>(isArgSchema, "Expected a typeof name, a Zod schema or a Zontax definition"),
+    ]),
+  ),
   description: z.string().optional(),
-  allowedOnPath: z
-    .array(z.union([z.string(), z.instanceof(RegExp)]))
-    .optional()
-    .refine((paths) => {
-      if (!paths) return true;
-      for (const path of paths) {
-        if (path instanceof RegExp) {
-          // Check for potentially dangerous RegExp patterns
-          const source = path.source;
-          if (source.includes('(.*)+') || source.includes('(.+)+') || 
-              source.includes('(.*)*') || source.includes('(.+)*') ||
-              source.includes('(.*)(.*)') || source.includes('(.+)(.+)')) {
-            return false;
-          }
-        }
-      }
-      return true;
-    }, "RegExp patterns must not contain potentially dangerous constructs that could cause ReDoS"),
+  allowedOnPath: PathPatternsSchema,
+  ...ExtensionRequirementShape,
 });
 
 export type Extension = z.infer<typeof ExtensionMethodSchema>;
 
+/** A completeness rule for an extension of a registration, declared next to its extensions */
+export const ExtensionRuleSchema = z.object({
+  extension: z.string(),
+  ...ExtensionRequirementShape,
+});
+
+export type ExtensionRule = z.infer<typeof ExtensionRuleSchema>;
+
 export interface SchemaRegistrationObject {
   namespace?: string;
   extensions: Extension[];
+  rules?: ExtensionRule[];
 }
 export type SchemaRegistration = Extension[] | SchemaRegistrationObject;
 export interface ZontaxParserOptions {
@@ -50,6 +131,92 @@ export interface ZontaxParserOptions {
   zodVersion?: "3" | "4";
   maxInputLength?: number;
   parseTimeout?: number;
+  /** Named definitions that sources can use through `Z.ref("Name")` */
+  definitions?: Record<string, ZontaxDefinition>;
+  /**
+   * Look up definitions that are not registered, e.g. from a database. Called at
+   * most once per name and parse() call; return undefined for unknown names.
+   */
+  resolveRef?: (name: string) => ZontaxDefinition | undefined | Promise<ZontaxDefinition | undefined>;
+  /** Replace `Z.ref()` with the referenced definition instead of keeping a `ref` node. Default: false */
+  inlineRefs?: boolean;
+  /** How sources that set a property to different values are merged. Can be overridden per parse() call */
+  merge?: ZontaxMergeOptions;
+}
+
+/** Options for a single parse() or parseWithDiagnostics() call, passed after the sources */
+export interface ZontaxParseOptions {
+  /** Merged over the parser's `merge` option, including its `namespaces` */
+  merge?: ZontaxMergeOptions;
+  /** Return a `provenance` map that tells which source each merged value came from. Default: false */
+  provenance?: boolean;
+}
+
+/** A value set by one source */
+export interface ZontaxContribution {
+  sourceIndex: number;
+  /** Where the value was set, e.g. the `.min(3)` call */
+  loc?: ZontaxSourceRange;
+  value: unknown;
+}
+
+/** The source of a merged value, and the different values other sources set for the same key */
+export interface ZontaxProvenanceEntry extends ZontaxContribution {
+  /** In source order */
+  overridden: ZontaxContribution[];
+}
+
+/**
+ * Keyed by field path (`"user.name"`, `""` for the root), then by property key
+ * such as `type`, `description`, `validations.min`, `extensions.label` or
+ * `namespaces.ui.label`.
+ */
+export type ZontaxProvenance = Record<string, Record<string, ZontaxProvenanceEntry>>;
+
+/** A property that two sources set to different values */
+export interface ZontaxMergeConflict {
+  /** Whether `key` names a validation, an extension or a definition property such as `description` */
+  kind: "validation" | "extension" | "property";
+  /** The validation, the extension (`ns$name` for namespaced ones) or the property name */
+  key: string;
+  /** Field path of the definition being merged */
+  path: string[];
+  /** The value merged from the earlier sources */
+  base: unknown;
+  /** The value from the source being merged in */
+  overlay: unknown;
+  /** Index of the `parse(...sources)` argument the overlay comes from */
+  sourceIndex: number;
+}
+
+/** Returns the value to keep for a conflict. Throw to fail the merge */
+export type ZontaxMergeResolver = (conflict: ZontaxMergeConflict) => unknown;
+
+/**
+ * - `error`: report a conflict error and keep the earlier value
+ * - `first-wins` / `last-wins`: keep the earlier or the later value
+ * - `strictest-wins`: keep the stricter value, e.g. the larger `min` or a required
+ *   field. Values without an order, such as two different regexes, are an error
+ * - a function that picks the value itself
+ */
+export type ZontaxMergeStrategy = "error" | "first-wins" | "last-wins" | "strictest-wins" | ZontaxMergeResolver;
+
+export interface ZontaxMergeOptions {
+  /** Validations set to different values. Default: "error" */
+  validations?: ZontaxMergeStrategy;
+  /** Global extensions set to different values. Default: "last-wins" */
+  extensions?: ZontaxMergeStrategy;
+  /** Strategies for the extensions of individual namespaces. Other namespaces use `extensions` */
+  namespaces?: Record<string, ZontaxMergeStrategy>;
+  /** Default: "last-wins" */
+  description?: ZontaxMergeStrategy;
+  /** Default: "last-wins" */
+  defaultValue?: ZontaxMergeStrategy;
+  /**
+   * `optional` and `nullable`, where a source without the modifier counts as `false`.
+   * When not set, a modifier is kept if any source sets it.
+   */
+  modifiers?: ZontaxMergeStrategy;
 }
 
 // ============================================================================
@@ -65,14 +232,32 @@ export interface ZontaxDefinitionBase {
   defaultValue?: unknown;
   description?: string;
   validations?: ZontaxValidations;
+  /** Custom error messages for entries of `validations`, e.g. from `.min(3, "Too short")` */
+  messages?: { [K in keyof ZontaxValidations]?: ZontaxMessage };
+  /** Custom error message for a value of the wrong type, e.g. from `Z.string("Must be text")` */
+  typeMessage?: ZontaxMessage;
   extensions?: Record<string, { value: unknown }>;
   namespaces?: Record<string, Record<string, { value: unknown }>>;
+  /** Set by parseWithDiagnostics() on definitions that had errors */
+  invalid?: boolean;
+}
+
+/**
+ * A custom error message. Written as a string, `{ message }` (Zod 3 style) or
+ * `{ error }` (Zod 4 style), and stored as `{ message }` either way.
+ */
+export interface ZontaxMessage {
+  message: string;
+  /** Extra data for the message, e.g. values for a translation. Kept in the definition, not passed to Zod */
+  params?: Record<string, unknown>;
 }
 
 /** Validation constraints that can be applied to types */
 export interface ZontaxValidations {
-  min?: number;
-  max?: number;
+  /** Inclusive lower bound; `.gte()` is stored here too. Bigint for `Z.bigint()` */
+  min?: number | bigint;
+  /** Inclusive upper bound; `.lte()` is stored here too. Bigint for `Z.bigint()` */
+  max?: number | bigint;
   length?: number;
   email?: boolean;
   url?: boolean;
@@ -80,6 +265,30 @@ export interface ZontaxValidations {
   int?: boolean;
   positive?: boolean;
   negative?: boolean;
+  /** Exclusive lower bound */
+  gt?: number | bigint;
+  /** Exclusive upper bound */
+  lt?: number | bigint;
+  multipleOf?: number | bigint;
+  finite?: boolean;
+  nonnegative?: boolean;
+  nonpositive?: boolean;
+  /** A regex literal, stored as its source and flags so definitions stay JSON-serializable */
+  regex?: { pattern: string; flags: string };
+  startsWith?: string;
+  endsWith?: string;
+  includes?: string;
+  cuid?: boolean;
+  cuid2?: boolean;
+  ulid?: boolean;
+  /** `true` for any IP address, or a specific version from `.ipv4()`/`.ipv6()` */
+  ip?: true | { version: "v4" | "v6" };
+  emoji?: boolean;
+  nanoid?: boolean;
+  // Transforms, applied before the checks above
+  trim?: boolean;
+  toLowerCase?: boolean;
+  toUpperCase?: boolean;
 }
 
 /** Primitive types: string, number, boolean, date, bigint, symbol, null, undefined, void, any, unknown, never */
@@ -91,6 +300,10 @@ export interface ZontaxPrimitiveDefinition extends ZontaxDefinitionBase {
 export interface ZontaxObjectDefinition extends ZontaxDefinitionBase {
   type: "object";
   fields: Record<string, ZontaxDefinition>;
+  /** How unknown keys are handled, from `.strict()` or `.passthrough()`. Zod strips them by default */
+  unknownKeys?: "strict" | "passthrough";
+  /** Schema for unknown keys, from `.catchall(schema)` */
+  catchall?: ZontaxDefinition;
 }
 
 /** Array type with element schema */
@@ -127,6 +340,43 @@ export interface ZontaxUnionDefinition extends ZontaxDefinitionBase {
   options: ZontaxDefinition[];
 }
 
+/** Union of object options told apart by a literal discriminator field */
+export interface ZontaxDiscriminatedUnionDefinition extends ZontaxDefinitionBase {
+  type: "discriminatedUnion";
+  discriminator: string;
+  options: ZontaxObjectDefinition[];
+}
+
+/** Intersection of two schemas that must both accept the value */
+export interface ZontaxIntersectionDefinition extends ZontaxDefinitionBase {
+  type: "intersection";
+  left: ZontaxDefinition;
+  right: ZontaxDefinition;
+}
+
+/** Reference to a named definition registered on the parser */
+export interface ZontaxRefDefinition extends ZontaxDefinitionBase {
+  type: "ref";
+  name: string;
+}
+
+/**
+ * Recursive reference to the nearest enclosing object, written `Z.self()`.
+ * Generated as `z.lazy(() => ...)`.
+ */
+export interface ZontaxSelfDefinition extends ZontaxDefinitionBase {
+  type: "self";
+}
+
+/**
+ * Reference to a named definition written `Z.lazy("Name")`. Unlike `Z.ref()` it
+ * may be part of a cycle and is never inlined.
+ */
+export interface ZontaxLazyDefinition extends ZontaxDefinitionBase {
+  type: "lazy";
+  name: string;
+}
+
 /** Record type with key and value schemas */
 export interface ZontaxRecordDefinition extends ZontaxDefinitionBase {
   type: "record";
@@ -143,6 +393,11 @@ export type ZontaxDefinition =
   | ZontaxLiteralDefinition
   | ZontaxTupleDefinition
   | ZontaxUnionDefinition
+  | ZontaxDiscriminatedUnionDefinition
+  | ZontaxIntersectionDefinition
+  | ZontaxRefDefinition
+  | ZontaxSelfDefinition
+  | ZontaxLazyDefinition
   | ZontaxRecordDefinition;
 
 /** Result returned by ZontaxParser.parse() */
@@ -151,6 +406,14 @@ export interface ZontaxParseResult {
   schema: string;
   /** The parsed definition structure */
   definition: ZontaxDefinition;
+  /** Present when parse() is called with `provenance: true` */
+  provenance?: ZontaxProvenance;
+}
+
+/** Result returned by ZontaxParser.parseWithDiagnostics() */
+export interface ZontaxDiagnosticsResult extends ZontaxParseResult {
+  /** Every error and warning found, in the order they were encountered */
+  diagnostics: ZontaxDiagnostic[];
 }
 
 // ============================================================================
@@ -181,6 +444,26 @@ export function isUnionDefinition(def: ZontaxDefinition): def is ZontaxUnionDefi
   return def.type === "union";
 }
 
+export function isDiscriminatedUnionDefinition(def: ZontaxDefinition): def is ZontaxDiscriminatedUnionDefinition {
+  return def.type === "discriminatedUnion";
+}
+
+export function isIntersectionDefinition(def: ZontaxDefinition): def is ZontaxIntersectionDefinition {
+  return def.type === "intersection";
+}
+
+export function isRefDefinition(def: ZontaxDefinition): def is ZontaxRefDefinition {
+  return def.type === "ref";
+}
+
+export function isSelfDefinition(def: ZontaxDefinition): def is ZontaxSelfDefinition {
+  return def.type === "self";
+}
+
+export function isLazyDefinition(def: ZontaxDefinition): def is ZontaxLazyDefinition {
+  return def.type === "lazy";
+}
+
 export function isRecordDefinition(def: ZontaxDefinition): def is ZontaxRecordDefinition {
   return def.type === "record";
 }
@@ -205,9 +488,23 @@ const KNOWN_ZOD_METHODS = [
   "array",
   "tuple",
   "union",
+  "discriminatedUnion",
+  "intersection",
+  "ref",
+  "self",
+  "lazy",
   "enum",
   "literal",
   "record",
+  // Object modifiers
+  "strict",
+  "passthrough",
+  "catchall",
+  "partial",
+  "required",
+  "pick",
+  "omit",
+  "extend",
   // Validations
   "min",
   "max",
@@ -218,6 +515,30 @@ const KNOWN_ZOD_METHODS = [
   "int",
   "positive",
   "negative",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "multipleOf",
+  "finite",
+  "nonnegative",
+  "nonpositive",
+  "regex",
+  "startsWith",
+  "endsWith",
+  "includes",
+  "cuid",
+  "cuid2",
+  "ulid",
+  "ip",
+  "ipv4",
+  "ipv6",
+  "emoji",
+  "nanoid",
+  // Transforms
+  "trim",
+  "toLowerCase",
+  "toUpperCase",
   // Modifiers
   "optional",
   "nullable",
@@ -225,13 +546,125 @@ const KNOWN_ZOD_METHODS = [
   "describe",
 ];
 
+/** Methods stored in `validations`, with their argument or `true` */
+const VALIDATION_METHODS = [
+  "min",
+  "max",
+  "length",
+  "email",
+  "url",
+  "uuid",
+  "int",
+  "positive",
+  "negative",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "multipleOf",
+  "finite",
+  "nonnegative",
+  "nonpositive",
+  "regex",
+  "startsWith",
+  "endsWith",
+  "includes",
+  "cuid",
+  "cuid2",
+  "ulid",
+  "emoji",
+  "nanoid",
+  "trim",
+  "toLowerCase",
+  "toUpperCase",
+];
+
+/** Validations that take a value, so their error message is the second argument */
+const VALUE_VALIDATIONS = ["min", "max", "length", "gt", "gte", "lt", "lte", "multipleOf", "regex", "startsWith", "endsWith", "includes"];
+
+/** Position of the error message argument of each type, e.g. `Z.string("Not text")` or `Z.array(item, "Not a list")` */
+const TYPE_MESSAGE_ARGS: Record<string, number> = {
+  ...Object.fromEntries(
+    ["string", "number", "boolean", "date", "datetime", "bigint", "symbol", "null", "undefined", "void", "any", "unknown", "never"].map(
+      (type) => [type, 0],
+    ),
+  ),
+  object: 1,
+  array: 1,
+  enum: 1,
+  literal: 1,
+  tuple: 1,
+  union: 1,
+  record: 2,
+  discriminatedUnion: 2,
+};
+
+/**
+ * Object methods that need the fields from Z.object(). The chain is read from the
+ * outside in, so these are applied in source order once the whole chain is read.
+ */
+const OBJECT_MODIFIERS = ["strict", "passthrough", "catchall", "partial", "required", "pick", "omit", "extend"];
+
+/** Zod aliases stored under the name of the equivalent validation */
+const VALIDATION_ALIASES: Record<string, string> = { gte: "min", lte: "max" };
+
+/** Validations that transform the value, emitted before the checks so these see the result */
+const TRANSFORM_VALIDATIONS = ["trim", "toLowerCase", "toUpperCase"];
+
+/** Reference names are emitted as identifiers in the generated schema string */
+const REF_NAME = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/** Where a definition node came from, used to locate errors raised while merging */
+interface DefinitionOrigin {
+  sourceIndex: number;
+  loc: ZontaxSourceRange;
+  /** Locations of individual properties, keyed like `validations.min` or `namespaces.ui.label` */
+  keys: Record<string, ZontaxSourceRange>;
+}
+
+/** State shared by all sources of a single parse() call */
+interface ParseState {
+  origins: WeakMap<object, DefinitionOrigin>;
+  /** Present in parseWithDiagnostics(): recoverable errors are collected here instead of thrown */
+  diagnostics?: ZontaxDiagnostic[];
+  /** Registered or resolver-provided definitions by name, undefined for unknown names */
+  lookups: Map<string, ZontaxDefinition | undefined>;
+  /** Named definitions with their own refs checked (and inlined with `inlineRefs`) */
+  refs: Map<string, ZontaxDefinition | undefined>;
+  /** Names behind a `Z.lazy()` whose definitions have been checked or are being checked */
+  lazy: Set<string>;
+  /** Merge options of the parser combined with those of the parse() call */
+  merge: ZontaxMergeOptions;
+  /** Set by the `provenance` parse option */
+  provenance?: boolean;
+}
+
+/** Per-source information threaded through AST validation and buildDefinition */
+interface SourceContext {
+  index: number;
+  source: string;
+  /** Offsets in the original source where escapeNewlinesInStrings inserted a character */
+  insertions: number[];
+  state: ParseState;
+  /** Number of Z.object() shapes being built around the current node, for Z.self() */
+  objectDepth: number;
+}
+
 export class ZontaxParser {
   private globalExtensions = new Map<string, Extension>();
   private namespacedExtensions = new Map<string, Map<string, Extension>>();
+  /** Rules declared by registrations, keyed by the method name of their extension, e.g. `ui$label` */
+  private rules: { methodName: string; rule: ExtensionRule }[] = [];
   private mode: "strict" | "loose";
   private zodVersion: "3" | "4";
   private maxInputLength: number;
   private parseTimeout: number;
+  private definitions = new Map<string, ZontaxDefinition>();
+  private resolveRef?: ZontaxParserOptions["resolveRef"];
+  private inlineRefs: boolean;
+  private merge: ZontaxMergeOptions;
+  /** Definitions on the current generateSchemaString() stack */
+  private generating = new Set<object>();
 
   constructor(
     options: ZontaxParserOptions = {},
@@ -241,6 +674,12 @@ export class ZontaxParser {
     this.zodVersion = options.zodVersion || "4";
     this.maxInputLength = options.maxInputLength || 10000;
     this.parseTimeout = options.parseTimeout || 5000;
+    this.resolveRef = options.resolveRef;
+    this.inlineRefs = options.inlineRefs || false;
+    this.merge = options.merge || {};
+    for (const name in options.definitions || {}) {
+      this.registerDefinition(name, options.definitions![name]);
+    }
     for (const reg of registrations) {
       if (Array.isArray(reg)) {
         this.registerGlobal(reg);
@@ -250,19 +689,38 @@ export class ZontaxParser {
         } else {
           this.registerGlobal(reg.extensions);
         }
+        this.registerRules(reg.namespace, reg.rules || []);
       }
     }
   }
 
+  /** Register a named definition for `Z.ref(name)`. Registering a name again replaces it. */
+  public registerDefinition(name: string, definition: ZontaxDefinition): void {
+    if (!REF_NAME.test(name)) {
+      throw new ZontaxMergeError(`Invalid definition name '${name}'. Names must be valid identifiers.`, {
+        code: "INVALID_INPUT",
+      });
+    }
+    this.validateDefinition(definition);
+    this.definitions.set(name, definition);
+  }
+
+  /** Named definitions registered through the `definitions` option or registerDefinition() */
+  public getDefinitions(): Record<string, ZontaxDefinition> {
+    const definitions: Record<string, ZontaxDefinition> = {};
+    this.definitions.forEach((definition, name) => {
+      definitions[name] = definition;
+    });
+    return definitions;
+  }
+
   private registerGlobal(extensions: Extension[]) {
     for (const ext of extensions) {
       ExtensionMethodSchema.parse(ext);
-      // Validate RegExp patterns in allowedOnPath
-      if (ext.allowedOnPath) {
-        for (const pattern of ext.allowedOnPath) {
-          if (pattern instanceof RegExp) {
-            this.validateRegExpPattern(pattern);
-          }
+      // Validate RegExp patterns in allowedOnPath and requiredOnPath
+      for (const pattern of [...(ext.allowedOnPath || []), ...(ext.requiredOnPath || [])]) {
+        if (pattern instanceof RegExp) {
+          this.validateRegExpPattern(pattern);
         }
       }
       this.globalExtensions.set(ext.name, ext);
@@ -276,18 +734,33 @@ export class ZontaxParser {
     const nsMap = this.namespacedExtensions.get(namespace)!;
     for (const ext of extensions) {
       ExtensionMethodSchema.parse(ext);
-      // Validate RegExp patterns in allowedOnPath
-      if (ext.allowedOnPath) {
-        for (const pattern of ext.allowedOnPath) {
-          if (pattern instanceof RegExp) {
-            this.validateRegExpPattern(pattern);
-          }
+      // Validate RegExp patterns in allowedOnPath and requiredOnPath
+      for (const pattern of [...(ext.allowedOnPath || []), ...(ext.requiredOnPath || [])]) {
+        if (pattern instanceof RegExp) {
+          this.validateRegExpPattern(pattern);
         }
       }
       nsMap.set(ext.name, ext);
     }
   }
 
+  private registerRules(namespace: string | undefined, rules: ExtensionRule[]) {
+    const extensions = namespace ? this.namespacedExtensions.get(namespace) : this.globalExtensions;
+    for (const rule of rules) {
+      ExtensionRuleSchema.parse(rule);
+      const methodName = namespace ? `${namespace}$${rule.extension}` : rule.extension;
+      if (!extensions?.has(rule.extension)) {
+        throw new ZontaxMergeError(`Rule for unregistered extension '${methodName}'.`, { code: "INVALID_INPUT" });
+      }
+      for (const pattern of rule.requiredOnPath || []) {
+        if (pattern instanceof RegExp) {
+          this.validateRegExpPattern(pattern);
+        }
+      }
+      this.rules.push({ methodName, rule });
+    }
+  }
+
   // SECURITY NOTE: Input validation uses defense-in-depth with whitelist-first approach:
   // 1. Primary: validateInputStructure ensures only valid Zontax syntax is allowed
   // 2. Secondary: Pattern blacklist catches obvious dangerous constructs
@@ -295,11 +768,12 @@ export class ZontaxParser {
   // expected input format is well-defined and constrained.
   private validateInput(source: string): void {
     if (typeof source !== "string") {
-      throw new ZontaxMergeError("Input must be a string");
+      throw new ZontaxMergeError("Input must be a string", { code: "INVALID_INPUT" });
     }
     if (source.length > this.maxInputLength) {
       throw new ZontaxMergeError(
         `Input length exceeds maximum allowed length of ${this.maxInputLength} characters`,
+        { code: "INPUT_TOO_LONG" },
       );
     }
     
@@ -451,8 +925,10 @@ export class ZontaxParser {
    * JavaScript doesn't allow unescaped newlines in regular string literals,
    * but schema definitions stored in databases may contain them.
    * Note: Template literals (backticks) DO allow newlines, so we don't escape those.
+   * The original offset of every escaped character is pushed onto `insertions` so
+   * AST positions can be mapped back onto the original source.
    */
-  private escapeNewlinesInStrings(source: string): string {
+  private escapeNewlinesInStrings(source: string, insertions: number[] = []): string {
     let result = '';
     let inString = false;
     let stringChar = '';
@@ -474,12 +950,15 @@ export class ZontaxParser {
         } else if (char === '\n' && stringChar !== '`') {
           // Actual newline inside regular string (not template literal) - escape it
           result += '\\n';
+          insertions.push(i);
         } else if (char === '\r' && stringChar !== '`') {
           // Carriage return - escape it
           result += '\\r';
+          insertions.push(i);
         } else if (char === '\t' && stringChar !== '`') {
           // Tab - escape it
           result += '\\t';
+          insertions.push(i);
         } else {
           result += char;
         }
@@ -500,10 +979,10 @@ export class ZontaxParser {
   // In browser environments, other protections (timeout, complexity limits, input length)
   // provide DoS protection. For browser-specific memory limiting, consider Web Workers
   // with message passing and termination capabilities.
-  private parseWithTimeout(source: string): Promise<any> {
+  private parseWithTimeout(source: string, ctx: SourceContext): Promise<any> {
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
-        reject(new ZontaxMergeError("Parse operation timed out"));
+        reject(new ZontaxMergeError("Parse operation timed out", { code: "PARSE_TIMEOUT" }));
       }, this.parseTimeout);
 
       // Resource monitoring
@@ -519,7 +998,7 @@ export class ZontaxParser {
           if (currentMemory - initialMemory > maxMemoryUsage) {
             clearTimeout(timeout);
             if (memoryCheck) clearInterval(memoryCheck);
-            reject(new ZontaxMergeError("Parse operation exceeded memory limit"));
+            reject(new ZontaxMergeError("Parse operation exceeded memory limit", { code: "MEMORY_LIMIT_EXCEEDED" }));
           }
         }, 100);
       }
@@ -528,7 +1007,7 @@ export class ZontaxParser {
         // Preprocess: escape actual newlines inside string literals
         // JavaScript doesn't allow unescaped newlines in string literals,
         // but schema definitions stored in databases may have them
-        const preprocessedSource = this.escapeNewlinesInStrings(source);
+        const preprocessedSource = this.escapeNewlinesInStrings(source, ctx.insertions);
 
         // Enhanced acorn options for security
         const parseOptions = {
@@ -548,12 +1027,12 @@ export class ZontaxParser {
         if (parseTime > this.parseTimeout * 0.8) {
           clearTimeout(timeout);
           if (memoryCheck) clearInterval(memoryCheck);
-          reject(new ZontaxMergeError("Parse operation took too long"));
+          reject(new ZontaxMergeError("Parse operation took too long", { code: "PARSE_TIMEOUT" }));
           return;
         }
 
         // Validate AST structure and complexity
-        this.validateASTStructure(result);
+        this.validateASTStructure(result, ctx);
         
         clearTimeout(timeout);
         if (memoryCheck) clearInterval(memoryCheck);
@@ -566,54 +1045,60 @@ export class ZontaxParser {
         if (error instanceof ZontaxMergeError) {
           reject(error);
         } else if (error instanceof SyntaxError) {
-          reject(new ZontaxMergeError("Invalid syntax in input"));
+          // acorn reports the failing offset as `pos`
+          const pos = typeof (error as any).pos === "number" ? (error as any).pos : undefined;
+          reject(new ZontaxMergeError("Invalid syntax in input", {
+            code: "SYNTAX_ERROR",
+            sourceIndex: ctx.index,
+            loc: pos !== undefined ? this.locate(ctx, pos, pos) : undefined,
+          }));
         } else if (error && typeof error === 'object' && 'name' in error) {
           const typedError = error as any;
           if (typedError.name === 'RangeError') {
-            reject(new ZontaxMergeError("Input too complex to parse"));
+            reject(new ZontaxMergeError("Input too complex to parse", { code: "INPUT_TOO_COMPLEX" }));
           } else if (typedError.name === 'TypeError') {
-            reject(new ZontaxMergeError("Invalid input structure"));
+            reject(new ZontaxMergeError("Invalid input structure", { code: "INVALID_INPUT" }));
           } else if (typedError.message && typedError.message.includes('memory')) {
-            reject(new ZontaxMergeError("Insufficient memory to parse input"));
+            reject(new ZontaxMergeError("Insufficient memory to parse input", { code: "MEMORY_LIMIT_EXCEEDED" }));
           } else if (typedError.message && typedError.message.includes('timeout')) {
-            reject(new ZontaxMergeError("Parse operation timed out"));
+            reject(new ZontaxMergeError("Parse operation timed out", { code: "PARSE_TIMEOUT" }));
           } else {
             // Generic error without leaking details
-            reject(new ZontaxMergeError("Failed to parse input"));
+            reject(new ZontaxMergeError("Failed to parse input", { code: "PARSE_FAILED" }));
           }
         } else {
           // Generic error without leaking details
-          reject(new ZontaxMergeError("Failed to parse input"));
+          reject(new ZontaxMergeError("Failed to parse input", { code: "PARSE_FAILED" }));
         }
       }
     });
   }
 
-  private validateASTStructure(ast: any): void {
+  private validateASTStructure(ast: any, ctx: SourceContext): void {
     if (!ast || typeof ast !== 'object') {
-      throw new ZontaxMergeError("Invalid AST structure");
+      throw new ZontaxMergeError("Invalid AST structure", { code: "INVALID_AST" });
     }
 
     if (!ast.type || ast.type !== 'Program') {
-      throw new ZontaxMergeError("Invalid AST root type");
+      throw new ZontaxMergeError("Invalid AST root type", { code: "INVALID_AST" });
     }
 
     if (!Array.isArray(ast.body)) {
-      throw new ZontaxMergeError("Invalid AST body structure");
+      throw new ZontaxMergeError("Invalid AST body structure", { code: "INVALID_AST" });
     }
 
     // Validate AST complexity
     const complexity = this.calculateASTComplexity(ast);
     if (complexity.nodeCount > 1000) {
-      throw new ZontaxMergeError("AST too complex - node count exceeds limit");
+      throw new ZontaxMergeError("AST too complex - node count exceeds limit", { code: "AST_TOO_COMPLEX" });
     }
 
     if (complexity.depth > 50) {
-      throw new ZontaxMergeError("AST too complex - depth exceeds limit");
+      throw new ZontaxMergeError("AST too complex - depth exceeds limit", { code: "AST_TOO_COMPLEX" });
     }
 
     // Validate for unexpected node types
-    this.validateASTNodes(ast);
+    this.validateASTNodes(ast, ctx);
   }
 
   private calculateASTComplexity(node: any, depth: number = 0): { nodeCount: number; depth: number } {
@@ -644,7 +1129,7 @@ export class ZontaxParser {
     return { nodeCount, depth: maxDepth };
   }
 
-  private validateASTNodes(node: any): void {
+  private validateASTNodes(node: any, ctx: SourceContext): void {
     if (!node || typeof node !== 'object') {
       return;
     }
@@ -713,7 +1198,7 @@ export class ZontaxParser {
     ];
 
     if (node.type && !allowedNodeTypes.includes(node.type)) {
-      throw new ZontaxMergeError(`Forbidden AST node type: ${node.type}`);
+      throw this.sourceError(`Forbidden AST node type: ${node.type}`, "FORBIDDEN_SYNTAX", ctx, node);
     }
 
     // Recursively validate child nodes
@@ -722,24 +1207,24 @@ export class ZontaxParser {
         const value = node[key];
         if (Array.isArray(value)) {
           for (const item of value) {
-            this.validateASTNodes(item);
+            this.validateASTNodes(item, ctx);
           }
         } else if (value && typeof value === 'object') {
-          this.validateASTNodes(value);
+          this.validateASTNodes(value, ctx);
         }
       }
     }
   }
 
-  private validateASTNode(node: any, depth: number = 0): void {
+  private validateASTNode(node: any, depth: number = 0, ctx?: SourceContext, path?: string[]): void {
     if (depth > 50) {
-      throw new ZontaxMergeError("AST depth exceeds maximum allowed depth");
+      throw this.sourceError("AST depth exceeds maximum allowed depth", "AST_TOO_COMPLEX", ctx, node, path);
     }
     if (!node || typeof node !== "object") {
-      throw new ZontaxMergeError("Invalid AST node");
+      throw this.sourceError("Invalid AST node", "INVALID_AST", ctx, undefined, path);
     }
     if (!node.type || typeof node.type !== "string") {
-      throw new ZontaxMergeError("AST node missing or invalid type");
+      throw this.sourceError("AST node missing or invalid type", "INVALID_AST", ctx, node, path);
     }
     
     const allowedNodeTypes = [
@@ -757,33 +1242,33 @@ export class ZontaxParser {
     ];
     
     if (!allowedNodeTypes.includes(node.type)) {
-      throw new ZontaxMergeError(`Unsupported AST node type: ${node.type}`);
+      throw this.sourceError(`Unsupported AST node type: ${node.type}`, "FORBIDDEN_SYNTAX", ctx, node, path);
     }
   }
 
   private validateDefinition(def: any): void {
     if (!def || typeof def !== "object") {
-      throw new ZontaxMergeError("Invalid definition object");
+      throw new ZontaxMergeError("Invalid definition object", { code: "INVALID_DEFINITION" });
     }
     
     if (def.type && typeof def.type !== "string") {
-      throw new ZontaxMergeError("Definition type must be a string");
+      throw new ZontaxMergeError("Definition type must be a string", { code: "INVALID_DEFINITION" });
     }
     
     if (def.fields && typeof def.fields !== "object") {
-      throw new ZontaxMergeError("Definition fields must be an object");
+      throw new ZontaxMergeError("Definition fields must be an object", { code: "INVALID_DEFINITION" });
     }
     
     if (def.validations && typeof def.validations !== "object") {
-      throw new ZontaxMergeError("Definition validations must be an object");
+      throw new ZontaxMergeError("Definition validations must be an object", { code: "INVALID_DEFINITION" });
     }
     
     if (def.extensions && typeof def.extensions !== "object") {
-      throw new ZontaxMergeError("Definition extensions must be an object");
+      throw new ZontaxMergeError("Definition extensions must be an object", { code: "INVALID_DEFINITION" });
     }
     
     if (def.namespaces && typeof def.namespaces !== "object") {
-      throw new ZontaxMergeError("Definition namespaces must be an object");
+      throw new ZontaxMergeError("Definition namespaces must be an object", { code: "INVALID_DEFINITION" });
     }
   }
 
@@ -852,36 +1337,36 @@ export class ZontaxParser {
     // Check against known ReDoS patterns
     for (const redosPattern of redosPatterns) {
       if (redosPattern.test(source)) {
-        throw new ZontaxMergeError("RegExp pattern contains ReDoS vulnerability");
+        throw new ZontaxMergeError("RegExp pattern contains ReDoS vulnerability", { code: "UNSAFE_REGEXP" });
       }
     }
     
     // Advanced complexity analysis
     const metrics = this.analyzeRegExpComplexity(source);
     if (metrics.riskScore > 100) {
-      throw new ZontaxMergeError("RegExp pattern complexity exceeds safe limits");
+      throw new ZontaxMergeError("RegExp pattern complexity exceeds safe limits", { code: "UNSAFE_REGEXP" });
     }
     
     // Check for excessively long patterns
     if (source.length > 500) {
-      throw new ZontaxMergeError("RegExp pattern is too long");
+      throw new ZontaxMergeError("RegExp pattern is too long", { code: "UNSAFE_REGEXP" });
     }
     
     // Check for excessive nesting depth
     const nestingDepth = this.calculateNestingDepth(source);
     if (nestingDepth > 10) {
-      throw new ZontaxMergeError("RegExp pattern nesting depth exceeds safe limits");
+      throw new ZontaxMergeError("RegExp pattern nesting depth exceeds safe limits", { code: "UNSAFE_REGEXP" });
     }
     
     // Check for too many quantifiers
     const quantifierCount = (source.match(/[+*?{}]/g) || []).length;
     if (quantifierCount > 20) {
-      throw new ZontaxMergeError("RegExp pattern has too many quantifiers");
+      throw new ZontaxMergeError("RegExp pattern has too many quantifiers", { code: "UNSAFE_REGEXP" });
     }
     
     // Check for suspicious flag combinations
     if (flags.includes('g') && flags.includes('i') && source.includes('.*')) {
-      throw new ZontaxMergeError("RegExp pattern with global, case-insensitive flags and .* is potentially dangerous");
+      throw new ZontaxMergeError("RegExp pattern with global, case-insensitive flags and .* is potentially dangerous", { code: "UNSAFE_REGEXP" });
     }
   }
 
@@ -934,21 +1419,62 @@ export class ZontaxParser {
     return maxDepth;
   }
 
-  private buildDefinition(node: any, path: string[] = [], depth: number = 0): any {
-    this.validateASTNode(node, depth);
+  /** Read a custom error message argument, given as a string, `{ message }` or `{ error }` */
+  private messageValue(value: any, methodName: string, ctx: SourceContext | undefined, node: any, path: string[]): ZontaxMessage {
+    if (typeof value === "string") return { message: value };
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      const { message, error, params, ...rest } = value;
+      const text = message ?? error;
+      const validParams = params === undefined || (params !== null && typeof params === "object" && !Array.isArray(params));
+      if (typeof text === "string" && (message === undefined || error === undefined) && validParams && Object.keys(rest).length === 0) {
+        return params === undefined ? { message: text } : { message: text, params };
+      }
+    }
+    throw this.sourceError(
+      `Invalid error message for '.${methodName}()' at path '${path.join(".")}'. Expected a string, { message } or { error }.`,
+      "UNSUPPORTED_VALUE",
+      ctx,
+      node,
+      path,
+    );
+  }
+
+  private buildDefinition(node: any, path: string[] = [], depth: number = 0, ctx?: SourceContext): any {
+    this.validateASTNode(node, depth, ctx, path);
     
     if (node.type === "ExpressionStatement") {
-      return this.buildDefinition(node.expression, path, depth + 1);
+      return this.buildDefinition(node.expression, path, depth + 1, ctx);
     }
     if (node.type === "CallExpression") {
       let data: any = {};
+      const keys: Record<string, ZontaxSourceRange> = {};
+      // Type and argument checks run once the root Z.<type>() call is known
+      const extensionCalls: {
+        methodName: string;
+        namespace: string | null;
+        extName: string;
+        extension: Extension;
+        args: any[];
+        node: any;
+      }[] = [];
+      const objectModifiers: { methodName: string; args: any[]; node: any }[] = [];
       let current = node;
       while (current && current.type === "CallExpression") {
         const callee = current.callee;
         if (callee.type === "MemberExpression") {
           const methodName = callee.property.name;
-          const args = current.arguments.map((arg: any) =>
-            this.buildDefinition(arg, path, depth + 1),
+          // Errors and key locations point at `.method(...)` rather than the whole chain
+          const methodNode = { start: callee.property.start, end: current.end };
+          const recordKey = (key: string) => {
+            if (ctx) keys[key] = this.locate(ctx, methodNode.start, methodNode.end);
+          };
+          // Only Z.object() and .extend() take a shape, object literals anywhere else are plain values
+          const args = current.arguments.map((arg: any, i: number) =>
+            methodName === "regex" && i === 0
+              ? this.regexValue(arg, ctx, path)
+              : arg.type === "ObjectExpression" && !((methodName === "object" || methodName === "extend") && i === 0)
+                ? this.generateSafeValue(arg, ctx, path)
+                : this.buildDefinition(arg, path, depth + 1, ctx),
           );
           const [namespace, extName] = methodName.includes("$")
             ? methodName.split("$")
@@ -959,87 +1485,110 @@ export class ZontaxParser {
             : this.globalExtensions.get(extName);
 
           if (extension) {
-            if (extension.allowedOnPath) {
-              const currentPath = path.join(".");
-              const isAllowed = extension.allowedOnPath.some((pattern) => {
-                if (typeof pattern === "string") {
-                  if (pattern.endsWith(".*")) {
-                    const base = pattern.slice(0, -2);
-                    return (
-                      currentPath.startsWith(base) &&
-                      currentPath.split(".").length ===
-                        base.split(".").length + 1
-                    );
-                  }
-                  return pattern === currentPath;
-                } else if (pattern instanceof RegExp) {
-                  return pattern.test(currentPath);
-                }
-                return false;
-              });
-              if (!isAllowed) {
-                throw new ZontaxMergeError(
+            const currentPath = path.join(".");
+            const isAllowed =
+              !extension.allowedOnPath || this.matchesPathPatterns(extension.allowedOnPath, currentPath);
+            if (!isAllowed) {
+              this.report(
+                this.sourceError(
                   `Extension '${methodName}' is not allowed on path '${currentPath}'.`,
-                );
-              }
-            }
-            if (namespace) {
+                  "EXTENSION_PATH_NOT_ALLOWED",
+                  ctx,
+                  methodNode,
+                  path,
+                ),
+                ctx?.state,
+              );
+              data.invalid = true;
+            } else if (namespace) {
+              extensionCalls.push({ methodName, namespace, extName, extension, args, node: methodNode });
               if (!data.namespaces) data.namespaces = {};
               if (!data.namespaces[namespace]) data.namespaces[namespace] = {};
               data.namespaces[namespace][extName] = {
                 value: args.length === 1 ? args[0] : args,
               };
+              recordKey(`namespaces.${namespace}.${extName}`);
             } else {
+              extensionCalls.push({ methodName, namespace, extName, extension, args, node: methodNode });
               if (!data.extensions) data.extensions = {};
               data.extensions[extName] = {
                 value: args.length === 1 ? args[0] : args,
               };
+              recordKey(`extensions.${extName}`);
             }
           } else if (KNOWN_ZOD_METHODS.includes(methodName)) {
-            if (
-              [
-                "min",
-                "max",
-                "length",
-                "email",
-                "url",
-                "uuid",
-                "int",
-                "positive",
-                "negative",
-              ].includes(methodName)
-            ) {
+            if (methodName === "ip" || methodName === "ipv4" || methodName === "ipv6") {
+              // .ipv4()/.ipv6() and .ip({ version }) are stored the same way
+              // .ip() takes the version and the error message in one options object
+              const isOptions = methodName === "ip" && args[0] !== null && typeof args[0] === "object";
+              const { version, ...options } = isOptions ? args[0] : ({} as Record<string, unknown>);
+              const message = isOptions ? (Object.keys(options).length > 0 ? options : undefined) : args[0];
+              const ipVersion = methodName === "ip" ? version : methodName.slice(2);
+              if (ipVersion !== undefined && ipVersion !== "v4" && ipVersion !== "v6") {
+                throw this.sourceError(`Invalid IP version '${ipVersion}'. Expected 'v4' or 'v6'.`, "UNSUPPORTED_VALUE", ctx, methodNode, path);
+              }
+              if (!data.validations) data.validations = {};
+              data.validations.ip = ipVersion ? { version: ipVersion } : true;
+              recordKey("validations.ip");
+              if (message !== undefined) {
+                if (!data.messages) data.messages = {};
+                data.messages.ip = this.messageValue(message, methodName, ctx, methodNode, path);
+                recordKey("messages.ip");
+              }
+            } else if (OBJECT_MODIFIERS.includes(methodName)) {
+              objectModifiers.unshift({ methodName, args, node: methodNode });
+            } else if (VALIDATION_METHODS.includes(methodName)) {
+              const key = VALIDATION_ALIASES[methodName] || methodName;
+              const messageIndex = VALUE_VALIDATIONS.includes(methodName) ? 1 : 0;
               if (!data.validations) data.validations = {};
-              data.validations[methodName] = args.length > 0 ? args[0] : true;
+              data.validations[key] = messageIndex > 0 && args.length > 0 ? args[0] : true;
+              recordKey(`validations.${key}`);
+              if (args.length > messageIndex) {
+                if (TRANSFORM_VALIDATIONS.includes(key)) {
+                  throw this.sourceError(`'.${methodName}()' does not take an error message.`, "UNSUPPORTED_VALUE", ctx, methodNode, path);
+                }
+                if (!data.messages) data.messages = {};
+                data.messages[key] = this.messageValue(args[messageIndex], methodName, ctx, methodNode, path);
+                recordKey(`messages.${key}`);
+              }
             } else if (
               ["string", "number", "boolean", "date", "datetime", "bigint", "symbol", "null", "undefined", "void", "any", "unknown", "never"].includes(methodName)
             ) {
               data.type = methodName === "datetime" ? "date" : methodName;
+              recordKey("type");
             } else if (methodName === "record") {
               data.type = "record";
               data.keySchema = args[0];
               data.valueSchema = args[1];
+              recordKey("type");
             } else if (methodName === "optional") {
               data.optional = true;
+              recordKey("optional");
             } else if (methodName === "nullable") {
               data.nullable = true;
+              recordKey("nullable");
             } else if (methodName === "default") {
               data.defaultValue = args[0];
+              recordKey("defaultValue");
             } else if (methodName === "describe") {
               data.description = args[0];
+              recordKey("description");
             } else if (methodName === "object") {
               data.type = "object";
+              recordKey("type");
               data.fields = args[0].fields;
             } else if (methodName === "array") {
               data.type = "array";
               data.of = args[0];
+              recordKey("type");
             } else if (methodName === "enum") {
               data.type = "enum";
+              recordKey("type");
               // For enum, parse the array literal argument
               const enumArg = current.arguments[0];
               if (enumArg.type === "ArrayExpression") {
                 data.values = enumArg.elements.map((elem: any) =>
-                  this.buildDefinition(elem, path, depth + 1),
+                  this.buildDefinition(elem, path, depth + 1, ctx),
                 );
               } else {
                 data.values = args[0];
@@ -1047,46 +1596,110 @@ export class ZontaxParser {
             } else if (methodName === "literal") {
               data.type = "literal";
               data.value = args[0];
+              recordKey("type");
             } else if (methodName === "tuple") {
               data.type = "tuple";
+              recordKey("type");
               // For tuple, parse the array literal argument
               const tupleArg = current.arguments[0];
               if (tupleArg.type === "ArrayExpression") {
                 data.items = tupleArg.elements.map((elem: any) =>
-                  this.buildDefinition(elem, path, depth + 1),
+                  this.buildDefinition(elem, path, depth + 1, ctx),
                 );
               } else {
                 data.items = args[0];
               }
             } else if (methodName === "union") {
               data.type = "union";
+              recordKey("type");
               // For union, parse the array literal argument
               const unionArg = current.arguments[0];
               if (unionArg.type === "ArrayExpression") {
                 data.options = unionArg.elements.map((elem: any) =>
-                  this.buildDefinition(elem, path, depth + 1),
+                  this.buildDefinition(elem, path, depth + 1, ctx),
                 );
               } else {
                 data.options = args[0];
               }
+            } else if (methodName === "discriminatedUnion") {
+              data.type = "discriminatedUnion";
+              recordKey("type");
+              data.discriminator = args[0];
+              data.options = Array.isArray(args[1]) ? args[1] : [];
+              this.checkDiscriminatedUnion(data, current, path, ctx);
+            } else if (methodName === "intersection") {
+              data.type = "intersection";
+              recordKey("type");
+              data.left = args[0];
+              data.right = args[1];
+            } else if (methodName === "ref" || methodName === "lazy") {
+              if (typeof args[0] !== "string" || !REF_NAME.test(args[0])) {
+                throw this.sourceError(
+                  `'.${methodName}()' expects the name of a registered definition at path '${path.join(".")}'.`,
+                  "INVALID_DEFINITION",
+                  ctx,
+                  methodNode,
+                  path,
+                );
+              }
+              data.type = methodName;
+              data.name = args[0];
+              recordKey("type");
+            } else if (methodName === "self") {
+              if (ctx && ctx.objectDepth === 0) {
+                throw this.sourceError(
+                  `'.self()' can only be used inside a Z.object() shape at path '${path.join(".")}'.`,
+                  "INVALID_DEFINITION",
+                  ctx,
+                  methodNode,
+                  path,
+                );
+              }
+              data.type = "self";
+              recordKey("type");
+            }
+            const messageIndex = TYPE_MESSAGE_ARGS[methodName];
+            if (messageIndex !== undefined && args.length > messageIndex) {
+              data.typeMessage = this.messageValue(args[messageIndex], methodName, ctx, methodNode, path);
+              recordKey("typeMessage");
             }
           } else if (this.mode === "loose") {
+            this.warn(
+              this.sourceError(
+                `Unregistered method '.${methodName}()' was captured as an extension.`,
+                "LOOSE_METHOD_CAPTURED",
+                ctx,
+                methodNode,
+                path,
+              ),
+              ctx?.state,
+            );
             if (namespace) {
               if (!data.namespaces) data.namespaces = {};
               if (!data.namespaces[namespace]) data.namespaces[namespace] = {};
               data.namespaces[namespace][extName] = {
                 value: args.length === 1 ? args[0] : args,
               };
+              recordKey(`namespaces.${namespace}.${extName}`);
             } else {
               if (!data.extensions) data.extensions = {};
               data.extensions[extName] = {
                 value: args.length === 1 ? args[0] : args,
               };
+              recordKey(`extensions.${extName}`);
             }
           } else {
-            throw new ZontaxMergeError(
-              `Unrecognized method '.${methodName}()'.`,
+            this.report(
+              this.sourceError(
+                `Unrecognized method '.${methodName}()'.`,
+                "UNRECOGNIZED_METHOD",
+                ctx,
+                methodNode,
+                path,
+              ),
+              ctx?.state,
             );
+            data.invalid = true;
           }
         }
         current = current.callee.object;
@@ -1097,36 +1710,388 @@ export class ZontaxParser {
         current.object.name === "Z"
       ) {
         data.type = current.property.name;
+      } else if (data.invalid && !data.type) {
+        // An unrecognized Z.<type>() call leaves no type. Recover as unknown like an invalid
+        // field, without the checks z.unknown() does not have
+        data.type = "unknown";
+        delete data.validations;
+        delete data.messages;
+      }
+      for (const modifier of objectModifiers) {
+        this.applyObjectModifier(data, modifier, path, ctx, keys);
       }
-      return data;
+      if (this.mode === "strict") {
+        for (const call of extensionCalls) {
+          const error = this.checkExtensionCall(call.methodName, call.extension, call.args, data.type, path, ctx, call.node);
+          if (error) {
+            this.report(error, ctx?.state);
+            // Drop the misused extension so the best-effort definition only holds valid metadata
+            if (call.namespace) {
+              delete data.namespaces[call.namespace][call.extName];
+              if (Object.keys(data.namespaces[call.namespace]).length === 0) delete data.namespaces[call.namespace];
+              if (Object.keys(data.namespaces).length === 0) delete data.namespaces;
+            } else {
+              delete data.extensions[call.extName];
+              if (Object.keys(data.extensions).length === 0) delete data.extensions;
+            }
+            data.invalid = true;
+          }
+        }
+      }
+      return this.withOrigin(data, node, ctx, keys);
     }
     if (node.type === "ObjectExpression") {
       const fields: any = {};
+      if (ctx) ctx.objectDepth++;
       for (const prop of node.properties) {
         const key =
           prop.key.type === "Literal" ? prop.key.value : prop.key.name;
-        fields[key] = this.buildDefinition(prop.value, [...path, key], depth + 1);
+        try {
+          fields[key] = this.buildDefinition(prop.value, [...path, key], depth + 1, ctx);
+        } catch (error) {
+          if (!(error instanceof ZontaxMergeError)) throw error;
+          this.report(error, ctx?.state);
+          fields[key] = { type: "unknown", invalid: true };
+        }
       }
-      return { type: "object", fields };
+      if (ctx) ctx.objectDepth--;
+      return this.withOrigin({ type: "object", fields }, node, ctx);
     }
     if (
       node.type === "MemberExpression" &&
       node.object.type === "Identifier" &&
       node.object.name === "Z"
     ) {
-      return { type: node.property.name };
+      return this.withOrigin({ type: node.property.name }, node, ctx);
+    }
+    return this.generateSafeValue(node, ctx, path);
+  }
+
+  /** Every option of Z.discriminatedUnion() must be an object with a distinct literal discriminator */
+  private checkDiscriminatedUnion(data: any, call: any, path: string[], ctx: SourceContext | undefined): void {
+    const fail = (message: string, node: any) => {
+      this.report(this.sourceError(message, "INVALID_DEFINITION", ctx, node, path), ctx?.state);
+      data.invalid = true;
+    };
+    const currentPath = path.join(".");
+    const { discriminator } = data;
+    if (typeof discriminator !== "string") {
+      fail(`'.discriminatedUnion()' expects a discriminator key as its first argument at path '${currentPath}'.`, call.arguments[0] ?? call);
+      return;
+    }
+    const optionNodes = call.arguments[1]?.type === "ArrayExpression" ? call.arguments[1].elements : [];
+    if (optionNodes.length === 0) {
+      fail(`'.discriminatedUnion()' expects an array of object options at path '${currentPath}'.`, call.arguments[1] ?? call);
+      return;
+    }
+    const seen = new Set<unknown>();
+    data.options.forEach((option: any, i: number) => {
+      const field = option?.type === "object" ? option.fields?.[discriminator] : undefined;
+      if (!field || field.type !== "literal") {
+        fail(
+          `Option ${i} of the discriminated union at path '${currentPath}' must be an object with a literal '${discriminator}' field.`,
+          optionNodes[i],
+        );
+      } else if (seen.has(field.value)) {
+        fail(
+          `Duplicate discriminator value ${JSON.stringify(field.value)} for '${discriminator}' at path '${currentPath}'.`,
+          optionNodes[i],
+        );
+      } else {
+        seen.add(field.value);
+      }
+    });
+  }
+
+  /** Apply an object modifier like `.partial()` or `.extend({...})` to the fields read from Z.object() */
+  private applyObjectModifier(
+    data: any,
+    modifier: { methodName: string; args: any[]; node: any },
+    path: string[],
+    ctx: SourceContext | undefined,
+    keys: Record<string, ZontaxSourceRange>,
+  ): void {
+    const { methodName, args, node } = modifier;
+    const fail = (message: string) => {
+      this.report(this.sourceError(message, "INVALID_DEFINITION", ctx, node, path), ctx?.state);
+      data.invalid = true;
+    };
+    if (data.type !== "object") {
+      fail(`'.${methodName}()' can only be used on Z.object() at path '${path.join(".")}'.`);
+      return;
+    }
+    if (!data.fields) data.fields = {};
+
+    // pick/omit need a `{ key: true }` mask, partial/required take an optional one
+    const needsMask = methodName === "pick" || methodName === "omit";
+    const takesMask = needsMask || methodName === "partial" || methodName === "required";
+    let maskKeys = Object.keys(data.fields);
+    if (takesMask && (needsMask || args[0] !== undefined)) {
+      const mask = args[0];
+      if (!mask || typeof mask !== "object" || Array.isArray(mask) || Object.values(mask).some((v) => v !== true)) {
+        fail(`'.${methodName}()' expects an object of the form { key: true } at path '${path.join(".")}'.`);
+        return;
+      }
+      maskKeys = Object.keys(mask);
+      const unknown = maskKeys.find((key) => !(key in data.fields));
+      if (unknown !== undefined) {
+        fail(`Unrecognized key '${unknown}' in '.${methodName}()' at path '${path.join(".")}'.`);
+        return;
+      }
+    }
+
+    switch (methodName) {
+      case "strict":
+      case "passthrough":
+        data.unknownKeys = methodName;
+        if (ctx) keys.unknownKeys = this.locate(ctx, node.start, node.end);
+        break;
+      case "catchall":
+        if (!args[0] || typeof args[0].type !== "string") {
+          fail(`'.catchall()' expects a schema at path '${path.join(".")}'.`);
+          return;
+        }
+        data.catchall = args[0];
+        if (ctx) keys.catchall = this.locate(ctx, node.start, node.end);
+        break;
+      case "partial":
+        for (const key of maskKeys) data.fields[key].optional = true;
+        break;
+      case "required":
+        for (const key of maskKeys) delete data.fields[key].optional;
+        break;
+      case "pick":
+        for (const key of Object.keys(data.fields)) {
+          if (!maskKeys.includes(key)) delete data.fields[key];
+        }
+        break;
+      case "omit":
+        for (const key of maskKeys) delete data.fields[key];
+        break;
+      case "extend":
+        if (!args[0] || args[0].type !== "object") {
+          fail(`'.extend()' expects an object shape at path '${path.join(".")}'.`);
+          return;
+        }
+        Object.assign(data.fields, args[0].fields);
+        break;
+    }
+  }
+
+  /**
+   * Raise a recoverable error. parseWithDiagnostics() collects it and keeps going;
+   * every other caller gets it thrown as before.
+   */
+  private report(error: ZontaxMergeError, state?: ParseState): void {
+    if (!state?.diagnostics) throw error;
+    state.diagnostics.push(error.toDiagnostic("error"));
+  }
+
+  /** Warnings only exist in diagnostics mode and are dropped otherwise */
+  private warn(warning: ZontaxMergeError, state?: ParseState): void {
+    state?.diagnostics?.push(warning.toDiagnostic("warning"));
+  }
+
+  /** Remember where a definition node was written so merge errors can point back at it */
+  private withOrigin<T extends object>(
+    data: T,
+    node: any,
+    ctx?: SourceContext,
+    keys: Record<string, ZontaxSourceRange> = {},
+  ): T {
+    if (ctx) {
+      ctx.state.origins.set(data, {
+        sourceIndex: ctx.index,
+        loc: this.locate(ctx, node.start, node.end),
+        keys,
+      });
+    }
+    return data;
+  }
+
+  private sourceError(
+    message: string,
+    code: ZontaxErrorCode,
+    ctx?: SourceContext,
+    node?: { start: number; end: number },
+    path?: string[],
+  ): ZontaxMergeError {
+    return new ZontaxMergeError(message, {
+      code,
+      sourceIndex: ctx?.index,
+      loc: ctx && node ? this.locate(ctx, node.start, node.end) : undefined,
+      path,
+    });
+  }
+
+  /** Convert offsets in the preprocessed source into line/column ranges of the original source */
+  private locate(ctx: SourceContext, start: number, end: number): ZontaxSourceRange {
+    return { start: this.positionAt(ctx, start), end: this.positionAt(ctx, end) };
+  }
+
+  private positionAt(ctx: SourceContext, offset: number): ZontaxSourcePosition {
+    let original = offset;
+    for (let i = 0; i < ctx.insertions.length && ctx.insertions[i] + i < offset; i++) {
+      original--;
+    }
+    const before = ctx.source.slice(0, original);
+    const lineStart = before.lastIndexOf("\n") + 1;
+    return {
+      line: before.split("\n").length,
+      column: original - lineStart,
+      offset: original,
+    };
+  }
+
+  /** Whether a dotted field path matches an exact path, a `base.*` wildcard or a RegExp */
+  private matchesPathPatterns(patterns: (string | RegExp)[], currentPath: string): boolean {
+    return patterns.some((pattern) => {
+      if (typeof pattern === "string") {
+        if (pattern.endsWith(".*")) {
+          const base = pattern.slice(0, -2);
+          return (
+            currentPath.startsWith(base) &&
+            currentPath.split(".").length ===
+              base.split(".").length + 1
+          );
+        }
+        return pattern === currentPath;
+      } else if (pattern instanceof RegExp) {
+        return pattern.test(currentPath);
+      }
+      return false;
+    });
+  }
+
+  /**
+   * Check an extension call against its registration: the schema type it is
+   * applied to must be listed in `allowedOn`, and the call arguments must match
+   * `args` in count and type. Returns the error instead of throwing it so that
+   * parseWithDiagnostics() can keep going.
+   */
+  private checkExtensionCall(
+    methodName: string,
+    extension: Extension,
+    args: any[],
+    type: string | undefined,
+    path: string[],
+    ctx?: SourceContext,
+    node?: { start: number; end: number },
+  ): ZontaxMergeError | undefined {
+    const currentPath = path.join(".");
+    const signature = `${methodName}(${extension.args.map((arg) => this.describeArgSchema(arg)).join(", ")})`;
+
+    if (type && !extension.allowedOn.includes(type)) {
+      return this.sourceError(
+        `Extension '${methodName}' is not allowed on type '${type}' at path '${currentPath}'. Expected usage: ${signature} on ${extension.allowedOn.join(" | ")}.`,
+        "EXTENSION_TYPE_NOT_ALLOWED",
+        ctx,
+        node,
+        path,
+      );
+    }
+
+    const matches =
+      args.length === extension.args.length &&
+      extension.args.every((expected, i) => typeof expected !== "string" || this.matchesArgType(args[i], expected));
+    if (!matches) {
+      const received = args.map((arg) => this.describeArgType(arg)).join(", ");
+      return this.sourceError(
+        `Invalid arguments for extension '${methodName}' at path '${currentPath}': expected ${signature}, received (${received}).`,
+        "EXTENSION_ARGS_MISMATCH",
+        ctx,
+        node,
+        path,
+      );
     }
-    return this.generateSafeValue(node);
+
+    for (const [i, expected] of extension.args.entries()) {
+      if (typeof expected === "string") continue;
+      const issues = this.argIssues(args[i], expected);
+      if (issues.length === 0) continue;
+      const details = issues
+        .map((issue) => (issue.path.length > 0 ? `${issue.message} at '${issue.path.map(String).join(".")}'` : issue.message))
+        .join("; ");
+      return this.sourceError(
+        `Invalid argument ${i + 1} for extension '${methodName}' at path '${currentPath}': ${details}.`,
+        "EXTENSION_ARGS_MISMATCH",
+        ctx,
+        node,
+        path,
+      );
+    }
+    return undefined;
   }
 
-  private generateSafeValue(node: any): any {
+  /** Issues of an argument value checked against a Zod schema or a Zontax definition */
+  private argIssues(value: unknown, schema: ExtensionZodSchema | ZontaxDefinition): { path: PropertyKey[]; message: string }[] {
+    if ("safeParse" in schema && typeof schema.safeParse === "function") {
+      const result = schema.safeParse(value);
+      return result.success ? [] : result.error?.issues || [];
+    }
+    const result = validate(schema as ZontaxDefinition, value, { definitions: this.getDefinitions() });
+    return result.success ? [] : result.issues;
+  }
+
+  /** How an argument type is shown in error messages, e.g. `string` or `Z.enum(["a", "b"])` */
+  private describeArgSchema(arg: ExtensionArgSchema): string {
+    if (typeof arg === "string") return arg;
+    try {
+      return "safeParse" in arg && typeof arg.safeParse === "function"
+        ? fromZod(arg).source
+        : printDefinition(arg as ZontaxDefinition);
+    } catch {
+      return "schema";
+    }
+  }
+
+  private matchesArgType(value: unknown, expected: string): boolean {
+    switch (expected) {
+      case "any":
+      case "unknown":
+        return true;
+      case "array":
+        return Array.isArray(value);
+      case "null":
+        return value === null;
+      case "object":
+        return value !== null && typeof value === "object" && !Array.isArray(value);
+      default:
+        return typeof value === expected;
+    }
+  }
+
+  private describeArgType(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+  }
+
+  /** Read the regex literal passed to `.regex()`, rejecting patterns prone to ReDoS */
+  private regexValue(node: any, ctx?: SourceContext, path?: string[]): { pattern: string; flags: string } {
+    if (node.type !== "Literal" || !node.regex) {
+      throw this.sourceError("'.regex()' expects a regular expression literal", "UNSUPPORTED_VALUE", ctx, node, path);
+    }
+    try {
+      new RegExp(node.regex.pattern, node.regex.flags);
+    } catch (error) {
+      throw this.sourceError(`Invalid regular expression: ${(error as Error).message}`, "UNSUPPORTED_VALUE", ctx, node, path);
+    }
+    const unsafe = findCatastrophicBacktracking(node.regex.pattern);
+    if (unsafe) {
+      throw this.sourceError(`RegExp pattern contains ReDoS vulnerability: ${unsafe}`, "UNSAFE_REGEXP", ctx, node, path);
+    }
+    return { pattern: node.regex.pattern, flags: node.regex.flags };
+  }
+
+  private generateSafeValue(node: any, ctx?: SourceContext, path?: string[]): any {
     // Validate node structure first
     if (!node || typeof node !== "object") {
-      throw new ZontaxMergeError("Invalid node structure");
+      throw this.sourceError("Invalid node structure", "INVALID_AST", ctx, undefined, path);
     }
     
     if (!node.type || typeof node.type !== "string") {
-      throw new ZontaxMergeError("Invalid node type");
+      throw this.sourceError("Invalid node type", "INVALID_AST", ctx, node, path);
     }
 
     switch (node.type) {
@@ -1138,16 +2103,20 @@ export class ZontaxParser {
             typeof node.value === "boolean") {
           return node.value;
         }
-        throw new ZontaxMergeError("Unsupported literal value type");
+        // Bigint literals like `10n`, for Z.bigint() bounds and defaults
+        if (typeof node.bigint === "string") {
+          return BigInt(node.bigint);
+        }
+        throw this.sourceError("Unsupported literal value type", "UNSUPPORTED_VALUE", ctx, node, path);
 
       case "TemplateLiteral": {
         // Support template literals (backtick strings) for multi-line strings
         // Only support simple templates without interpolation (expressions)
         if (node.expressions && node.expressions.length > 0) {
-          throw new ZontaxMergeError("Template literal interpolation (${...}) is not supported in Zontax schemas");
+          throw this.sourceError("Template literal interpolation (${...}) is not supported in Zontax schemas", "FORBIDDEN_SYNTAX", ctx, node, path);
         }
         if (!Array.isArray(node.quasis) || node.quasis.length === 0) {
-          throw new ZontaxMergeError("Invalid template literal structure");
+          throw this.sourceError("Invalid template literal structure", "INVALID_AST", ctx, node, path);
         }
         // For simple template literals, concatenate all quasis
         // (there should only be one if no expressions)
@@ -1158,44 +2127,44 @@ export class ZontaxParser {
 
       case "ObjectExpression": {
         if (!Array.isArray(node.properties)) {
-          throw new ZontaxMergeError("Invalid object expression structure");
+          throw this.sourceError("Invalid object expression structure", "INVALID_AST", ctx, node, path);
         }
         
         const obj: any = {};
         for (const prop of node.properties) {
           if (!prop.key || !prop.value) {
-            throw new ZontaxMergeError("Invalid property structure");
+            throw this.sourceError("Invalid property structure", "INVALID_AST", ctx, node, path);
           }
           
           const key = prop.key.type === "Identifier" ? prop.key.name : prop.key.value;
           if (typeof key !== "string") {
-            throw new ZontaxMergeError("Invalid property key");
+            throw this.sourceError("Invalid property key", "INVALID_AST", ctx, node, path);
           }
           
-          obj[key] = this.generateSafeValue(prop.value);
+          obj[key] = this.generateSafeValue(prop.value, ctx, path);
         }
         return obj;
       }
       
       case "ArrayExpression":
         if (!Array.isArray(node.elements)) {
-          throw new ZontaxMergeError("Invalid array expression structure");
+          throw this.sourceError("Invalid array expression structure", "INVALID_AST", ctx, node, path);
         }
         
         return node.elements.map((elem: any) => {
           if (!elem) {
-            throw new ZontaxMergeError("Invalid array element");
+            throw this.sourceError("Invalid array element", "INVALID_AST", ctx, node, path);
           }
           // Handle CallExpression nodes in arrays (like Z.string(), Z.number())
           if (elem.type === 'CallExpression') {
-            return this.buildDefinition(elem);
+            return this.buildDefinition(elem, path, 0, ctx);
           }
-          return this.generateSafeValue(elem);
+          return this.generateSafeValue(elem, ctx, path);
         });
         
       case "Identifier":
         if (typeof node.name !== "string") {
-          throw new ZontaxMergeError("Invalid identifier name");
+          throw this.sourceError("Invalid identifier name", "INVALID_AST", ctx, node, path);
         }
         
         if (node.name === "undefined") {
@@ -1207,11 +2176,11 @@ export class ZontaxParser {
         if (node.name === "Infinity") {
           return Infinity;
         }
-        throw new ZontaxMergeError("Unsupported identifier");
+        throw this.sourceError("Unsupported identifier", "UNSUPPORTED_VALUE", ctx, node, path);
         
       case "UnaryExpression":
         if (typeof node.operator !== "string") {
-          throw new ZontaxMergeError("Invalid unary operator");
+          throw this.sourceError("Invalid unary operator", "INVALID_AST", ctx, node, path);
         }
         
         if (node.operator === "-" &&
@@ -1220,17 +2189,27 @@ export class ZontaxParser {
             typeof node.argument.value === "number") {
           return -node.argument.value;
         }
-        throw new ZontaxMergeError("Unsupported unary expression");
+        if (node.operator === "-" &&
+            node.argument &&
+            node.argument.type === "Literal" &&
+            typeof node.argument.bigint === "string") {
+          return -BigInt(node.argument.bigint);
+        }
+        throw this.sourceError("Unsupported unary expression", "UNSUPPORTED_VALUE", ctx, node, path);
         
       default:
-        throw new ZontaxMergeError("Unsupported node type");
+        throw this.sourceError("Unsupported node type", "UNSUPPORTED_VALUE", ctx, node, path);
     }
   }
 
-  private deepClone(obj: any): any {
+  /** Copies shared and cyclic references once, so the clone has the same shape as the original */
+  private deepClone(obj: any, seen = new WeakMap<object, any>()): any {
     if (obj === null || typeof obj !== 'object') {
       return obj;
     }
+    if (seen.has(obj)) {
+      return seen.get(obj);
+    }
     
     if (obj instanceof Date) {
       return new Date(obj.getTime());
@@ -1241,14 +2220,20 @@ export class ZontaxParser {
     }
     
     if (Array.isArray(obj)) {
-      return obj.map(item => this.deepClone(item));
+      const cloned: any[] = [];
+      seen.set(obj, cloned);
+      for (const item of obj) {
+        cloned.push(this.deepClone(item, seen));
+      }
+      return cloned;
     }
     
     if (typeof obj === 'object') {
       const cloned: any = {};
+      seen.set(obj, cloned);
       for (const key in obj) {
         if (obj.hasOwnProperty(key)) {
-          cloned[key] = this.deepClone(obj[key]);
+          cloned[key] = this.deepClone(obj[key], seen);
         }
       }
       return cloned;
@@ -1257,7 +2242,7 @@ export class ZontaxParser {
     return obj;
   }
 
-  private deepMergeDefinitions(defs: any[], path: string[] = []): any {
+  private deepMergeDefinitions(defs: any[], path: string[] = [], state?: ParseState, merging: object[] = []): any {
     if (defs.length === 0) return {};
     if (defs.length === 1) {
       this.validateDefinition(defs[0]);
@@ -1272,12 +2257,74 @@ export class ZontaxParser {
     const base = this.deepClone(defs[0]);
     for (let i = 1; i < defs.length; i++) {
       const overlay = defs[i];
+      // A cyclic definition reaches an overlay that is already being merged, the outer merge covers it
+      if (merging.includes(overlay)) continue;
+      const nested = [...merging, overlay];
       const currentPath = path.join(".");
+      // Nested merges always see two definitions, so the origin knows the real source index
+      const origin = state?.origins.get(overlay);
+      const sourceIndex = origin ? origin.sourceIndex : i;
 
       if (base.type && overlay.type && base.type !== overlay.type) {
-        throw new ZontaxMergeError(
-          `Type mismatch at schema index ${i} for field '${currentPath}': Cannot merge type '${overlay.type}' into '${base.type}'.`,
+        this.report(
+          new ZontaxMergeError(
+            `Type mismatch at schema index ${sourceIndex} for field '${currentPath}': Cannot merge type '${overlay.type}' into '${base.type}'.`,
+            { code: "TYPE_MISMATCH", sourceIndex, loc: origin?.keys.type ?? origin?.loc, path },
+          ),
+          state,
         );
+        // Keep the earlier definition and skip the incompatible overlay
+        base.invalid = true;
+        continue;
+      }
+      if (base.type === "discriminatedUnion" && overlay.type === "discriminatedUnion" && base.discriminator !== overlay.discriminator) {
+        this.report(
+          new ZontaxMergeError(
+            `Discriminator mismatch at schema index ${sourceIndex} for field '${currentPath}': Cannot merge discriminator '${overlay.discriminator}' into '${base.discriminator}'.`,
+            { code: "TYPE_MISMATCH", sourceIndex, loc: origin?.keys.type ?? origin?.loc, path },
+          ),
+          state,
+        );
+        base.invalid = true;
+        continue;
+      }
+      if ((base.type === "ref" || base.type === "lazy") && base.type === overlay.type && base.name !== overlay.name) {
+        this.report(
+          new ZontaxMergeError(
+            `Reference mismatch at schema index ${sourceIndex} for field '${currentPath}': Cannot merge reference '${overlay.name}' into '${base.name}'.`,
+            { code: "TYPE_MISMATCH", sourceIndex, loc: origin?.keys.type ?? origin?.loc, path },
+          ),
+          state,
+        );
+        base.invalid = true;
+        continue;
+      }
+      if (overlay.invalid) {
+        base.invalid = true;
+      }
+      if (base.type === "discriminatedUnion" && Array.isArray(overlay.options)) {
+        // Options with the same discriminator value are merged, new ones are appended
+        const valueOf = (option: any) => option?.fields?.[base.discriminator]?.value;
+        if (!Array.isArray(base.options)) base.options = [];
+        for (const option of overlay.options) {
+          const index = base.options.findIndex((existing: any) => this.isDeepEqual(valueOf(existing), valueOf(option)));
+          if (index === -1) {
+            base.options.push(option);
+          } else {
+            base.options[index] = this.deepMergeDefinitions(
+              [base.options[index], option],
+              [...path, String(valueOf(option))],
+              state,
+              nested,
+            );
+          }
+        }
+      }
+      if (base.type === "intersection") {
+        for (const side of ["left", "right"]) {
+          if (!overlay[side]) continue;
+          base[side] = base[side] ? this.deepMergeDefinitions([base[side], overlay[side]], path, state, nested) : overlay[side];
+        }
       }
       if (overlay.fields) {
         if (!base.fields) base.fields = {};
@@ -1288,59 +2335,395 @@ export class ZontaxParser {
             base.fields[fieldName] = this.deepMergeDefinitions(
               [base.fields[fieldName], overlay.fields[fieldName]],
               [...path, fieldName],
+              state,
+              nested,
             );
           }
         }
       }
+      // Messages of validations that kept the earlier value stay with that value
+      const keptValidations = new Set<string>();
       if (overlay.validations) {
         if (!base.validations) base.validations = {};
         for (const key in overlay.validations) {
           if (
             base.validations[key] !== undefined &&
-            base.validations[key] !== overlay.validations[key]
+            !this.isDeepEqual(base.validations[key], overlay.validations[key])
           ) {
-            throw new ZontaxMergeError(
-              `Validation conflict at schema index ${i} for field '${currentPath}': Mismatch for validation '${key}'.`,
+            const resolved = this.resolveConflict(
+              { kind: "validation", key, path, base: base.validations[key], overlay: overlay.validations[key], sourceIndex },
+              state?.merge.validations ?? "error",
+              new ZontaxMergeError(
+                `Validation conflict at schema index ${sourceIndex} for field '${currentPath}': Mismatch for validation '${key}'.`,
+                { code: "VALIDATION_CONFLICT", sourceIndex, loc: origin?.keys[`validations.${key}`] ?? origin?.loc, path },
+              ),
+              state,
             );
+            if (resolved) {
+              base.validations[key] = resolved.value;
+            } else {
+              base.invalid = true;
+            }
+            if (!resolved || !this.isDeepEqual(resolved.value, overlay.validations[key])) {
+              keptValidations.add(key);
+            }
+            continue;
           }
           base.validations[key] = overlay.validations[key];
         }
       }
+      if (overlay.messages) {
+        base.messages = { ...base.messages };
+        for (const key in overlay.messages) {
+          if (!keptValidations.has(key)) base.messages[key] = overlay.messages[key];
+        }
+      }
+      if (overlay.typeMessage) {
+        base.typeMessage = overlay.typeMessage;
+      }
       if (overlay.extensions) {
         if (!base.extensions) base.extensions = {};
-        Object.assign(base.extensions, overlay.extensions);
+        if (!this.mergeExtensions(base.extensions, overlay.extensions, null, origin, sourceIndex, path, state)) {
+          base.invalid = true;
+        }
       }
       if (overlay.namespaces) {
         if (!base.namespaces) base.namespaces = {};
         for (const nsName in overlay.namespaces) {
           if (!base.namespaces[nsName]) base.namespaces[nsName] = {};
-          Object.assign(base.namespaces[nsName], overlay.namespaces[nsName]);
+          if (!this.mergeExtensions(base.namespaces[nsName], overlay.namespaces[nsName], nsName, origin, sourceIndex, path, state)) {
+            base.invalid = true;
+          }
         }
       }
-      if (overlay.optional) {
-        base.optional = true;
+      if (overlay.unknownKeys !== undefined) {
+        base.unknownKeys = overlay.unknownKeys;
       }
-      if (overlay.nullable) {
-        base.nullable = true;
+      if (overlay.catchall) {
+        base.catchall = base.catchall
+          ? this.deepMergeDefinitions([base.catchall, overlay.catchall], path, state, nested)
+          : overlay.catchall;
       }
-      if (overlay.defaultValue !== undefined) {
-        base.defaultValue = overlay.defaultValue;
+      for (const key of ["optional", "nullable"]) {
+        const strategy = state?.merge.modifiers;
+        if (!strategy) {
+          if (overlay[key]) base[key] = true;
+          continue;
+        }
+        if (Boolean(base[key]) === Boolean(overlay[key])) continue;
+        const resolved = this.resolveConflict(
+          { kind: "property", key, path, base: Boolean(base[key]), overlay: Boolean(overlay[key]), sourceIndex },
+          strategy,
+          this.propertyConflict(key, sourceIndex, origin, path),
+          state,
+        );
+        if (!resolved) {
+          base.invalid = true;
+        } else if (resolved.value) {
+          base[key] = true;
+        } else {
+          delete base[key];
+        }
       }
-      if (overlay.description !== undefined) {
-        base.description = overlay.description;
+      for (const key of ["defaultValue", "description"] as const) {
+        if (overlay[key] === undefined) continue;
+        if (base[key] === undefined || this.isDeepEqual(base[key], overlay[key])) {
+          base[key] = overlay[key];
+          continue;
+        }
+        const resolved = this.resolveConflict(
+          { kind: "property", key, path, base: base[key], overlay: overlay[key], sourceIndex },
+          state?.merge[key] ?? "last-wins",
+          this.propertyConflict(key, sourceIndex, origin, path),
+          state,
+        );
+        if (resolved) {
+          base[key] = resolved.value;
+        } else {
+          base.invalid = true;
+        }
       }
     }
     return base;
   }
 
-  private generateVersionSpecificMethod(
-    method: string,
-    args: string[] = [],
-  ): string {
-    // Handle version-specific method generation
-    // Currently most methods are the same across versions
-    const argStr = args.length > 0 ? `(${args.join(", ")})` : "()";
-    return `z.${method}${argStr}`;
+  private propertyConflict(key: string, sourceIndex: number, origin: DefinitionOrigin | undefined, path: string[]): ZontaxMergeError {
+    return new ZontaxMergeError(
+      `Merge conflict at schema index ${sourceIndex} for field '${path.join(".")}': Mismatch for '${key}'.`,
+      { code: "MERGE_CONFLICT", sourceIndex, loc: origin?.keys[key] ?? origin?.loc, path },
+    );
+  }
+
+  /**
+   * Pick the value for a property that two sources set differently, following the
+   * strategy. Returns undefined when the conflict was reported as an error, in which
+   * case the earlier value stays.
+   */
+  private resolveConflict(
+    conflict: ZontaxMergeConflict,
+    strategy: ZontaxMergeStrategy,
+    error: ZontaxMergeError,
+    state?: ParseState,
+  ): { value: unknown } | undefined {
+    if (typeof strategy === "function") return { value: strategy(conflict) };
+    if (strategy === "first-wins") return { value: conflict.base };
+    if (strategy === "last-wins") return { value: conflict.overlay };
+    if (strategy === "strictest-wins") {
+      const strictest = this.strictestValue(conflict);
+      if (strictest) return strictest;
+    }
+    this.report(error, state);
+    return undefined;
+  }
+
+  /** The stricter of two conflicting values, for the values that have an order */
+  private strictestValue({ kind, key, base, overlay }: ZontaxMergeConflict): { value: unknown } | undefined {
+    if (kind === "property" && (key === "optional" || key === "nullable")) {
+      return { value: false };
+    }
+    if (kind !== "validation") return undefined;
+    const comparable = (typeof base === "number" || typeof base === "bigint") && typeof overlay === typeof base;
+    if (comparable && (key === "min" || key === "gt")) {
+      return { value: (overlay as number) > (base as number) ? overlay : base };
+    }
+    if (comparable && (key === "max" || key === "lt")) {
+      return { value: (overlay as number) < (base as number) ? overlay : base };
+    }
+    // A specific IP version is stricter than any version
+    if (key === "ip" && (base === true || overlay === true)) {
+      return { value: base === true ? overlay : base };
+    }
+    return undefined;
+  }
+
+  /**
+   * Merge the extension values of one namespace, or the global ones when `namespace`
+   * is null. Returns false if a conflict was reported as an error.
+   */
+  private mergeExtensions(
+    base: Record<string, { value: unknown }>,
+    overlay: Record<string, { value: unknown }>,
+    namespace: string | null,
+    origin: DefinitionOrigin | undefined,
+    sourceIndex: number,
+    path: string[],
+    state?: ParseState,
+  ): boolean {
+    const strategy = (namespace !== null && state?.merge.namespaces?.[namespace]) || state?.merge.extensions || "last-wins";
+    let merged = true;
+    for (const name in overlay) {
+      if (!base[name] || this.isDeepEqual(base[name].value, overlay[name].value)) {
+        base[name] = overlay[name];
+        continue;
+      }
+      const key = namespace !== null ? `${namespace}$${name}` : name;
+      const loc = origin?.keys[namespace !== null ? `namespaces.${namespace}.${name}` : `extensions.${name}`] ?? origin?.loc;
+      if (strategy === "last-wins" && state?.diagnostics) {
+        this.warn(
+          new ZontaxMergeError(
+            `Extension '${key}' at schema index ${sourceIndex} for field '${path.join(".")}' overrides an earlier value.`,
+            { code: "EXTENSION_OVERRIDDEN", sourceIndex, loc, path },
+          ),
+          state,
+        );
+      }
+      const resolved = this.resolveConflict(
+        { kind: "extension", key, path, base: base[name].value, overlay: overlay[name].value, sourceIndex },
+        strategy,
+        new ZontaxMergeError(
+          `Extension conflict at schema index ${sourceIndex} for field '${path.join(".")}': Mismatch for extension '${key}'.`,
+          { code: "EXTENSION_CONFLICT", sourceIndex, loc, path },
+        ),
+        state,
+      );
+      if (resolved) {
+        base[name] = { value: resolved.value };
+      } else {
+        merged = false;
+      }
+    }
+    return merged;
+  }
+
+  private isDeepEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+      return Number.isNaN(a) && Number.isNaN(b);
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) return false;
+    return keysA.every((key) => this.isDeepEqual(a[key], b[key]));
+  }
+
+  /**
+   * Call `visit` for every property of a definition and its nested fields, with the
+   * field path and a key named like the origin keys. Array elements are at `[]`,
+   * tuple items at their index and discriminated union options at their
+   * discriminator value.
+   */
+  private walkProperties(def: any, visit: (path: string, key: string, value: unknown, node: any) => void, path: string[] = [], ancestors: object[] = []): void {
+    if (!def || typeof def !== "object" || ancestors.includes(def)) return;
+    const at = path.join(".");
+    const scalars = ["type", "typeMessage", "description", "defaultValue", "optional", "nullable"] as const;
+    for (const key of scalars) {
+      if (def[key] !== undefined) visit(at, key, def[key], def);
+    }
+    for (const group of ["validations", "messages"] as const) {
+      for (const key in def[group] || {}) {
+        visit(at, `${group}.${key}`, def[group][key], def);
+      }
+    }
+    for (const key in def.extensions || {}) {
+      visit(at, `extensions.${key}`, def.extensions[key].value, def);
+    }
+    for (const ns in def.namespaces || {}) {
+      for (const key in def.namespaces[ns]) {
+        visit(at, `namespaces.${ns}.${key}`, def.namespaces[ns][key].value, def);
+      }
+    }
+    const inner = [...ancestors, def];
+    for (const name in def.fields || {}) {
+      this.walkProperties(def.fields[name], visit, [...path, name], inner);
+    }
+    this.walkProperties(def.of, visit, [...path, "[]"], inner);
+    (def.items || []).forEach((item: any, i: number) => this.walkProperties(item, visit, [...path, String(i)], inner));
+    if (def.type === "discriminatedUnion") {
+      for (const option of def.options || []) {
+        const value = option.fields?.[def.discriminator]?.value;
+        this.walkProperties(option, visit, [...path, String(value)], inner);
+      }
+    }
+  }
+
+  /** The properties one source sets, keyed by field path and property key */
+  private collectContributions(def: ZontaxDefinition, sourceIndex: number, state: ParseState): Map<string, Map<string, ZontaxContribution>> {
+    const found = new Map<string, Map<string, ZontaxContribution>>();
+    this.walkProperties(def, (path, key, value, node) => {
+      const origin = state.origins.get(node);
+      const loc = origin?.keys[key] ?? origin?.loc;
+      if (!found.has(path)) found.set(path, new Map());
+      found.get(path)!.set(key, { sourceIndex: origin?.sourceIndex ?? sourceIndex, ...(loc && { loc }), value });
+    });
+    return found;
+  }
+
+  /**
+   * Attribute every property of the merged definition to the last source that set
+   * the merged value, or to the last source that set the key at all when a strategy
+   * produced a new value. Sources that set a different value are listed as overridden.
+   */
+  private attributeContributions(merged: ZontaxDefinition, contributions: Map<string, Map<string, ZontaxContribution>>[]): ZontaxProvenance {
+    const provenance: ZontaxProvenance = {};
+    this.walkProperties(merged, (path, key, value) => {
+      const candidates = contributions.flatMap((found) => {
+        const contribution = found.get(path)?.get(key);
+        return contribution ? [contribution] : [];
+      });
+      if (candidates.length === 0) return;
+      const winner = [...candidates].reverse().find((candidate) => this.isDeepEqual(candidate.value, value))
+        ?? candidates[candidates.length - 1];
+      const overridden = candidates.filter((candidate) => !this.isDeepEqual(candidate.value, winner.value));
+      provenance[path] ??= {};
+      provenance[path][key] = { ...winner, overridden };
+    });
+    return provenance;
+  }
+
+  /**
+   * Check the `requiredOn`, `requiredOnPath` and `exclusiveWith` rules of registered
+   * extensions and registrations against a merged definition. Runs after merging
+   * because a single source is often incomplete on its own.
+   */
+  private checkRequirements(definition: ZontaxDefinition): ZontaxMergeError[] {
+    const rules: { methodName: string; rule: ExtensionRule }[] = [];
+    this.globalExtensions.forEach((extension, name) => rules.push({ methodName: name, rule: { ...extension, extension: name } }));
+    this.namespacedExtensions.forEach((extensions, namespace) => {
+      extensions.forEach((extension, name) => rules.push({ methodName: `${namespace}$${name}`, rule: { ...extension, extension: name } }));
+    });
+    rules.push(...this.rules);
+    const errors: ZontaxMergeError[] = [];
+    const visit = (node: any, path: string[]) => {
+      const currentPath = path.join(".");
+      const missing = new Set<string>();
+      const exclusive = new Set<string>();
+      for (const { methodName, rule } of rules) {
+        const present = this.hasExtension(node, methodName);
+        if (!present && !missing.has(methodName)) {
+          if (rule.requiredOn?.includes(node.type)) {
+            missing.add(methodName);
+            errors.push(new ZontaxMergeError(
+              `Extension '${methodName}' is required on type '${node.type}' at path '${currentPath}'.`,
+              { code: "EXTENSION_REQUIRED", path },
+            ));
+          } else if (rule.requiredOnPath && this.matchesPathPatterns(rule.requiredOnPath, currentPath)) {
+            missing.add(methodName);
+            errors.push(new ZontaxMergeError(
+              `Extension '${methodName}' is required on path '${currentPath}'.`,
+              { code: "EXTENSION_REQUIRED", path },
+            ));
+          }
+        }
+        if (!present) continue;
+        const namespace = methodName.includes("$") ? methodName.split("$")[0] : null;
+        for (const name of rule.exclusiveWith || []) {
+          const other = name.includes("$") || !namespace ? name : `${namespace}$${name}`;
+          const pair = [methodName, other].sort().join(" ");
+          if (other === methodName || exclusive.has(pair) || !this.hasExtension(node, other)) continue;
+          exclusive.add(pair);
+          errors.push(new ZontaxMergeError(
+            `Extensions '${methodName}' and '${other}' cannot be used together at path '${currentPath}'.`,
+            { code: "EXTENSION_EXCLUSIVE", path },
+          ));
+        }
+      }
+    };
+    visit(definition, []);
+    this.forEachField(definition, visit);
+    return errors;
+  }
+
+  /** Whether a definition node has a global extension or a namespaced one like `ui$label` */
+  private hasExtension(node: any, methodName: string): boolean {
+    if (!methodName.includes("$")) return node.extensions?.[methodName] !== undefined;
+    const [namespace, name] = methodName.split("$");
+    return node.namespaces?.[namespace]?.[name] !== undefined;
+  }
+
+  /**
+   * Call `visit` for every object field of a definition with the path used by
+   * `allowedOnPath`. Array elements, union options and other nested types share
+   * the path of the field that holds them.
+   */
+  private forEachField(def: any, visit: (node: any, path: string[]) => void, path: string[] = [], ancestors: object[] = []): void {
+    if (!def || typeof def !== "object" || ancestors.includes(def)) return;
+    const inner = [...ancestors, def];
+    for (const name in def.fields || {}) {
+      visit(def.fields[name], [...path, name]);
+      this.forEachField(def.fields[name], visit, [...path, name], inner);
+    }
+    const children = [def.of, def.keySchema, def.valueSchema, def.left, def.right, def.catchall, ...(def.items || []), ...(def.options || [])];
+    for (const child of children) {
+      this.forEachField(child, visit, path, inner);
+    }
+  }
+
+  /** Validation keys with transforms first, the remaining checks in stored order */
+  private orderValidations(validations: Record<string, unknown>): string[] {
+    const keys = Object.keys(validations);
+    return [
+      ...keys.filter((key) => TRANSFORM_VALIDATIONS.includes(key)),
+      ...keys.filter((key) => !TRANSFORM_VALIDATIONS.includes(key)),
+    ];
+  }
+
+  /** Whether Z.self() is used within an object, outside nested objects that bind their own self */
+  private containsSelf(def: any): boolean {
+    const children = [def.of, def.keySchema, def.valueSchema, def.left, def.right, def.catchall];
+    return [...children, ...Object.values(def.fields || {}), ...(def.items || []), ...(def.options || [])].some(
+      (child: any) => child && (child.type === "self" || (child.type !== "object" && this.containsSelf(child))),
+    );
   }
 
   // SECURITY NOTE: JSON.stringify safely escapes user data in generated schema strings.
@@ -1349,52 +2732,88 @@ export class ZontaxParser {
   // JSON.stringify is the standard and safe way to embed user data in generated code.
   private generateSchemaString(def: any): string {
     if (!def || !def.type) return "";
+    if (this.generating.has(def)) {
+      throw new ZontaxMergeError("Definition contains an object cycle. Use Z.self() or Z.lazy() for recursion.", {
+        code: "INVALID_DEFINITION",
+      });
+    }
+    this.generating.add(def);
+    try {
+      return this.generateChain(def);
+    } finally {
+      this.generating.delete(def);
+    }
+  }
+
+  private generateChain(def: any): string {
+    const emitter = getZodEmitter(this.zodVersion);
+    const validations: Record<string, unknown> = { ...def.validations };
+    // Error parameter for the type check of types that take their items first
+    const params = def.typeMessage ? `, ${emitter.error(def.typeMessage)}` : "";
     let chain = "";
     if (def.type === "object") {
       const fieldsStr = Object.entries(def.fields || {})
         .map(([key, value]) => `${key}: ${this.generateSchemaString(value)}`)
         .join(", ");
-      chain = `z.object({ ${fieldsStr} })`;
+      chain = emitter.object(fieldsStr, def.unknownKeys, def.typeMessage);
+      if (def.catchall) {
+        chain += `.catchall(${this.generateSchemaString(def.catchall)})`;
+      }
+      if (this.containsSelf(def)) {
+        // Bind the object to `self` so z.lazy() can refer back to it
+        chain = `(() => { const self = ${chain}; return self; })()`;
+      }
     } else if (def.type === "array") {
-      chain = `z.array(${this.generateSchemaString(def.of)})`;
+      chain = `z.array(${this.generateSchemaString(def.of)}${params})`;
     } else if (def.type === "record") {
-      chain = `z.record(${this.generateSchemaString(def.keySchema)}, ${this.generateSchemaString(def.valueSchema)})`;
+      chain = `z.record(${this.generateSchemaString(def.keySchema)}, ${this.generateSchemaString(def.valueSchema)}${params})`;
     } else if (def.type === "enum") {
       const values = Array.isArray(def.values) ? def.values : [def.values];
-      const valuesStr = values.map((v: any) => JSON.stringify(v)).join(", ");
+      const valuesStr = values.map((v: any) => stringifyValue(v)).join(", ");
       // Both Zod 3 and 4 support z.enum([...]) for string arrays
-      chain = `z.enum([${valuesStr}])`;
+      chain = `z.enum([${valuesStr}]${params})`;
     } else if (def.type === "literal") {
-      chain = `z.literal(${JSON.stringify(def.value)})`;
+      chain = `z.literal(${stringifyValue(def.value)}${params})`;
     } else if (def.type === "tuple") {
       const itemsStr = Array.isArray(def.items)
         ? def.items
             .map((item: any) => this.generateSchemaString(item))
             .join(", ")
         : "";
-      chain = `z.tuple([${itemsStr}])`;
+      chain = `z.tuple([${itemsStr}]${params})`;
     } else if (def.type === "union") {
       const optionsStr = Array.isArray(def.options)
         ? def.options
             .map((option: any) => this.generateSchemaString(option))
             .join(", ")
         : "";
-      chain = `z.union([${optionsStr}])`;
+      chain = `z.union([${optionsStr}]${params})`;
+    } else if (def.type === "discriminatedUnion") {
+      const optionsStr = (def.options || []).map((option: any) => this.generateSchemaString(option)).join(", ");
+      chain = `z.discriminatedUnion(${JSON.stringify(def.discriminator)}, [${optionsStr}]${params})`;
+    } else if (def.type === "intersection") {
+      chain = `z.intersection(${this.generateSchemaString(def.left)}, ${this.generateSchemaString(def.right)})`;
+    } else if (def.type === "ref") {
+      // The named schema is expected to be in scope under the same name
+      chain = def.name;
+    } else if (def.type === "lazy") {
+      chain = `z.lazy(() => ${def.name})`;
+    } else if (def.type === "self") {
+      chain = "z.lazy(() => self)";
     } else {
-      chain = `z.${def.type}()`;
+      const { call, folded } = emitter.primitive(def);
+      chain = call;
+      if (folded) delete validations[folded];
     }
 
-    if (def.validations) {
-      for (const key in def.validations) {
-        const value = def.validations[key];
-        chain += `.${key}(${value === true ? "" : JSON.stringify(value)})`;
-      }
+    for (const key of this.orderValidations(validations)) {
+      chain += emitter.validation(key, validations[key], def.messages?.[key]);
     }
     if (def.description) {
-      chain += `.describe(${JSON.stringify(def.description)})`;
+      chain += emitter.description(def.description);
     }
     if (def.defaultValue !== undefined) {
-      chain += `.default(${JSON.stringify(def.defaultValue)})`;
+      chain += `.default(${stringifyValue(def.defaultValue)})`;
     }
     if (def.nullable) {
       chain += ".nullable()";
@@ -1405,25 +2824,222 @@ export class ZontaxParser {
     return chain;
   }
 
-  async parse(...sources: string[]): Promise<ZontaxParseResult> {
+  async parse(...sources: string[]): Promise<ZontaxParseResult>;
+  async parse(...args: [...sources: string[], options: ZontaxParseOptions]): Promise<ZontaxParseResult>;
+  async parse(...args: (string | ZontaxParseOptions)[]): Promise<ZontaxParseResult> {
+    const { sources, options } = this.splitParseArgs(args);
     if (sources.length === 0) {
       return { schema: "", definition: { type: "object", fields: {} } as ZontaxObjectDefinition };
     }
-    
+    return this.parseSources(sources, {
+      origins: new WeakMap(),
+      lookups: new Map(),
+      refs: new Map(),
+      lazy: new Set(),
+      merge: this.mergeOptions(options),
+      provenance: options.provenance,
+    });
+  }
+
+  /**
+   * Like parse(), but keeps going after errors. Returns a best-effort definition,
+   * with invalid fields marked `invalid: true`, plus every error and warning found
+   * across all sources.
+   */
+  async parseWithDiagnostics(...sources: string[]): Promise<ZontaxDiagnosticsResult>;
+  async parseWithDiagnostics(...args: [...sources: string[], options: ZontaxParseOptions]): Promise<ZontaxDiagnosticsResult>;
+  async parseWithDiagnostics(...args: (string | ZontaxParseOptions)[]): Promise<ZontaxDiagnosticsResult> {
+    const { sources, options } = this.splitParseArgs(args);
+    if (sources.length === 0) {
+      return { schema: "", definition: { type: "object", fields: {} } as ZontaxObjectDefinition, diagnostics: [] };
+    }
+    const diagnostics: ZontaxDiagnostic[] = [];
+    const result = await this.parseSources(sources, {
+      origins: new WeakMap(),
+      diagnostics,
+      lookups: new Map(),
+      refs: new Map(),
+      lazy: new Set(),
+      merge: this.mergeOptions(options),
+      provenance: options.provenance,
+    });
+    return { ...result, diagnostics };
+  }
+
+  /** Sources are strings, an object after them holds the options of the call */
+  private splitParseArgs(args: (string | ZontaxParseOptions)[]): { sources: string[]; options: ZontaxParseOptions } {
+    const last = args[args.length - 1];
+    if (last !== null && typeof last === "object") {
+      return { sources: args.slice(0, -1) as string[], options: last };
+    }
+    return { sources: args as string[], options: {} };
+  }
+
+  private mergeOptions(options: ZontaxParseOptions): ZontaxMergeOptions {
+    return {
+      ...this.merge,
+      ...options.merge,
+      namespaces: { ...this.merge.namespaces, ...options.merge?.namespaces },
+    };
+  }
+
+  private async parseSources(sources: string[], state: ParseState): Promise<ZontaxParseResult> {
     const definitions = await Promise.all(
-      sources.map(async (source) => {
-        this.validateInput(source);
-        const ast = await this.parseWithTimeout(source);
-        return this.buildDefinition(ast.body[0]);
+      sources.map(async (source, index) => {
+        const ctx: SourceContext = { index, source, insertions: [], state, objectDepth: 0 };
+        try {
+          this.validateInput(source);
+          const ast = await this.parseWithTimeout(source, ctx);
+          return this.buildDefinition(ast.body[0], [], 0, ctx);
+        } catch (error) {
+          if (error instanceof ZontaxMergeError && error.sourceIndex === undefined) {
+            error.sourceIndex = index;
+          }
+          // A source that cannot be parsed at all is left out of the merge
+          if (error instanceof ZontaxMergeError && state.diagnostics) {
+            this.report(error, state);
+            return undefined;
+          }
+          throw error;
+        }
       })
     );
 
-    const mergedDefinition = this.deepMergeDefinitions(definitions);
+    const parsed = definitions.filter((def) => def !== undefined);
+    const sourceIndices = definitions.flatMap((def, index) => (def === undefined ? [] : [index]));
+    // Resolved one source at a time so every name is looked up once
+    for (let i = 0; i < parsed.length; i++) {
+      parsed[i] = await this.resolveRefs(parsed[i], [], [], state);
+    }
+    // Collected before merging, which may change the source definitions in place
+    const contributions = state.provenance
+      ? parsed.map((def, i) => this.collectContributions(def, sourceIndices[i], state))
+      : [];
+    const mergedDefinition = parsed.length > 0
+      ? this.deepMergeDefinitions(parsed, [], state)
+      : { type: "unknown", invalid: true };
+    if (this.mode === "strict") {
+      for (const error of this.checkRequirements(mergedDefinition)) {
+        this.report(error, state);
+      }
+    }
+    for (const issue of checkZodCompatibility(mergedDefinition, this.zodVersion)) {
+      this.report(new ZontaxMergeError(issue.message, { code: "UNSUPPORTED_CONVERSION", path: issue.path }), state);
+    }
     const schema = this.generateSchemaString(mergedDefinition);
 
+    if (state.provenance) {
+      return { schema, definition: mergedDefinition, provenance: this.attributeContributions(mergedDefinition, contributions) };
+    }
     return { schema, definition: mergedDefinition };
   }
 
+  /**
+   * Check that every `Z.ref()` in a definition resolves without cycles. Refs are
+   * kept unless `inlineRefs` is set, in which case they are replaced by the
+   * referenced definition with the ref's own modifiers merged on top.
+   */
+  private async resolveRefs(
+    def: any,
+    path: string[],
+    resolving: string[],
+    state: ParseState,
+    seen = new WeakSet<object>(),
+  ): Promise<any> {
+    if (!def || typeof def !== "object") return def;
+    if (def.type === "ref" || def.type === "lazy") {
+      const origin = state.origins.get(def);
+      const fail = (message: string, code: ZontaxErrorCode) => {
+        this.report(new ZontaxMergeError(message, { code, sourceIndex: origin?.sourceIndex, loc: origin?.loc, path }), state);
+        def.invalid = true;
+        return def;
+      };
+      if (def.type === "lazy") {
+        if (!(await this.lookupDefinition(def.name, state))) {
+          return fail(`Unresolved reference '${def.name}' at path '${path.join(".")}'.`, "UNRESOLVED_REF");
+        }
+        // Lazy refs may close a cycle, so their target is checked once on its own
+        if (!state.lazy.has(def.name)) {
+          state.lazy.add(def.name);
+          await this.resolveNamed(def.name, path, [], state);
+        }
+        return def;
+      }
+      if (resolving.includes(def.name)) {
+        return fail(`Reference cycle at path '${path.join(".")}': ${[...resolving, def.name].join(" -> ")}.`, "REF_CYCLE");
+      }
+      const resolved: any = await this.resolveNamed(def.name, path, resolving, state);
+      if (!resolved) {
+        return fail(`Unresolved reference '${def.name}' at path '${path.join(".")}'.`, "UNRESOLVED_REF");
+      }
+      if (!this.inlineRefs) return def;
+      const { type, name, ...modifiers } = def;
+      return this.deepMergeDefinitions([resolved, { ...modifiers, type: resolved.type }], path, state);
+    }
+    // Registered definitions may contain object cycles, walk each node once
+    if (seen.has(def)) return def;
+    seen.add(def);
+
+    for (const key in def.fields || {}) {
+      def.fields[key] = await this.resolveRefs(def.fields[key], [...path, key], resolving, state, seen);
+    }
+    if (def.of) def.of = await this.resolveRefs(def.of, [...path, "[]"], resolving, state, seen);
+    for (const key of ["keySchema", "valueSchema", "left", "right", "catchall"]) {
+      if (def[key]) def[key] = await this.resolveRefs(def[key], path, resolving, state, seen);
+    }
+    if (Array.isArray(def.items)) {
+      for (let i = 0; i < def.items.length; i++) {
+        def.items[i] = await this.resolveRefs(def.items[i], [...path, String(i)], resolving, state, seen);
+      }
+    }
+    if (Array.isArray(def.options)) {
+      for (let i = 0; i < def.options.length; i++) {
+        def.options[i] = await this.resolveRefs(def.options[i], path, resolving, state, seen);
+      }
+    }
+    return def;
+  }
+
+  /** Look up a named definition once per parse() call */
+  private async lookupDefinition(name: string, state: ParseState): Promise<ZontaxDefinition | undefined> {
+    if (!state.lookups.has(name)) {
+      const target = this.definitions.get(name) ?? (this.resolveRef ? await this.resolveRef(name) : undefined);
+      if (target) this.validateDefinition(target);
+      state.lookups.set(name, target);
+    }
+    return state.lookups.get(name);
+  }
+
+  /** A named definition with its own refs resolved, undefined if the name is unknown */
+  private async resolveNamed(name: string, path: string[], resolving: string[], state: ParseState): Promise<any> {
+    if (!state.refs.has(name)) {
+      const target = await this.lookupDefinition(name, state);
+      const resolved = target && (await this.resolveRefs(this.deepClone(target), path, [...resolving, name], state));
+      state.refs.set(name, resolved);
+    }
+    return state.refs.get(name);
+  }
+
+  /** Build a live Zod schema from a definition, targeting the configured zodVersion */
+  public toZod(definition: ZontaxDefinition): ZodTypeAny | Zod4Type {
+    return toZod(definition, { zodVersion: this.zodVersion, definitions: this.getDefinitions() });
+  }
+
+  /** Validate a value against a definition without Zod, resolving refs from the registered definitions */
+  public validate(definition: ZontaxDefinition, value: unknown): ZontaxValidationResult {
+    return validate(definition, value, { definitions: this.getDefinitions() });
+  }
+
+  /** Generate an example value for a definition, resolving refs from the registered definitions */
+  public generateMock(definition: ZontaxDefinition, options: GenerateMockOptions = {}): unknown {
+    return generateMock(definition, { definitions: this.getDefinitions(), ...options });
+  }
+
+  /** Print a definition back to Zontax source using the registered extension signatures */
+  public print(definition: ZontaxDefinition): string {
+    return printDefinition(definition, { extensions: this.getExtensions() });
+  }
+
   public getExtensions(): Record<string, Extension[]> {
     const namespaces: Record<string, Extension[]> = {};
     for (const [name, extensionsMap] of this.namespacedExtensions.entries()) {
@@ -1476,8 +3092,8 @@ export class ZontaxParser {
 
           const extValue = exts[extName].value;
           const args = Array.isArray(extValue)
-            ? extValue.map((v) => typeof v)
-            : [typeof extValue];
+            ? extValue.map((v) => inferArgDefinition(v))
+            : [inferArgDefinition(extValue)];
 
           extensions.push({
             name: extName,
@@ -0,0 +1,433 @@
+import { ZontaxParser, ZontaxMergeError, ZontaxDefinition, toJSONSchema, fromJSONSchema } from './index';
+
+describe('toJSONSchema', () => {
+  const parser = new ZontaxParser({ mode: 'loose' });
+
+  it('should convert an object with validations, defaults and descriptions', async () => {
+    const { definition } = await parser.parse(`
+      Z.object({
+        name: Z.string().min(1).max(50).describe("Full name"),
+        email: Z.string().email(),
+        website: Z.string().url().optional(),
+        id: Z.string().uuid(),
+        code: Z.string().length(4),
+        age: Z.number().int().min(0).max(150),
+        balance: Z.number().positive(),
+        debt: Z.number().negative(),
+        role: Z.enum(["admin", "user"]).default("user"),
+        createdAt: Z.date()
+      })
+    `);
+    expect(toJSONSchema(definition)).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 50, description: 'Full name' },
+        email: { type: 'string', format: 'email' },
+        website: { type: 'string', format: 'uri' },
+        id: { type: 'string', format: 'uuid' },
+        code: { type: 'string', minLength: 4, maxLength: 4 },
+        age: { type: 'integer', minimum: 0, maximum: 150 },
+        balance: { type: 'number', exclusiveMinimum: 0 },
+        debt: { type: 'number', exclusiveMaximum: 0 },
+        role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+        createdAt: { type: 'string', format: 'date-time' },
+      },
+      required: ['name', 'email', 'id', 'code', 'age', 'balance', 'debt', 'createdAt'],
+    });
+  });
+
+  it('should convert arrays, records, tuples, unions and literals', async () => {
+    const { definition } = await parser.parse(`
+      Z.object({
+        tags: Z.array(Z.string()).min(1).max(5),
+        scores: Z.record(Z.string(), Z.number()),
+        flags: Z.record(Z.enum(["a", "b"]), Z.boolean()),
+        point: Z.tuple([Z.number(), Z.number()]),
+        id: Z.union([Z.string(), Z.number()]),
+        kind: Z.literal("user")
+      })
+    `);
+    const schema = toJSONSchema(definition, { includeDialect: false });
+    expect(schema.properties).toEqual({
+      tags: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 5 },
+      scores: { type: 'object', additionalProperties: { type: 'number' } },
+      flags: { type: 'object', additionalProperties: { type: 'boolean' }, propertyNames: { type: 'string', enum: ['a', 'b'] } },
+      point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], items: false, minItems: 2, maxItems: 2 },
+      id: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+      kind: { const: 'user' },
+    });
+  });
+
+  it('should convert string checks to patterns and formats', async () => {
+    const { definition } = await parser.parse(
+      'Z.object({ code: Z.string().regex(/^[A-Z]+$/).startsWith("A.").trim(), host: Z.string().ipv6(), id: Z.string().ulid() })',
+    );
+    expect(toJSONSchema(definition, { includeDialect: false }).properties).toEqual({
+      code: { type: 'string', pattern: '^A\\.', allOf: [{ pattern: '^[A-Z]+$' }] },
+      host: { type: 'string', format: 'ipv6' },
+      id: { type: 'string', pattern: '^[0-9A-HJKMNP-TV-Za-hjkmnp-tv-z]{26}$' },
+    });
+    expect(() => toJSONSchema({ type: 'string', validations: { regex: { pattern: 'a', flags: 'i' } } })).toThrow(
+      ZontaxMergeError,
+    );
+  });
+
+  it('should keep every format of a string with several', async () => {
+    const { definition } = await parser.parse('Z.string().email().url().uuid()');
+    expect(toJSONSchema(definition, { includeDialect: false })).toEqual({
+      type: 'string',
+      format: 'uuid',
+      allOf: [{ format: 'uri' }, { format: 'email' }],
+    });
+  });
+
+  it('should convert exclusive bounds, steps and bigint values', async () => {
+    const { definition } = await parser.parse(
+      'Z.object({ price: Z.number().gt(0).lt(100).multipleOf(0.01), stock: Z.bigint().nonnegative().default(5n) })',
+    );
+    expect(toJSONSchema(definition, { includeDialect: false }).properties).toEqual({
+      price: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 100, multipleOf: 0.01 },
+      stock: { type: 'integer', minimum: 0, default: 5 },
+    });
+    expect(() => toJSONSchema({ type: 'bigint', validations: { max: BigInt('9007199254740993') } })).toThrow(
+      ZontaxMergeError,
+    );
+  });
+
+  it('should keep the stricter of bounds on the same side', async () => {
+    const { definition } = await parser.parse(
+      `Z.object({
+        a: Z.number().positive().gt(5),
+        b: Z.number().gt(5).positive(),
+        c: Z.number().nonnegative().min(5),
+        d: Z.number().min(5).nonnegative(),
+        e: Z.number().min(0).positive(),
+        f: Z.number().lt(10).max(3).negative(),
+      })`,
+    );
+    expect(toJSONSchema(definition, { includeDialect: false }).properties).toEqual({
+      a: { type: 'number', exclusiveMinimum: 5 },
+      b: { type: 'number', exclusiveMinimum: 5 },
+      c: { type: 'number', minimum: 5 },
+      d: { type: 'number', minimum: 5 },
+      e: { type: 'number', exclusiveMinimum: 0 },
+      f: { type: 'number', exclusiveMaximum: 0 },
+    });
+  });
+
+  it('should convert strict objects and catchall schemas', async () => {
+    const { definition } = await parser.parse(
+      'Z.object({ a: Z.object({ x: Z.string() }).strict(), b: Z.object({}).catchall(Z.number()), c: Z.object({}).passthrough() })',
+    );
+    expect(toJSONSchema(definition, { includeDialect: false }).properties).toEqual({
+      a: { type: 'object', properties: { x: { type: 'string' } }, required: ['x'], additionalProperties: false },
+      b: { type: 'object', properties: {}, additionalProperties: { type: 'number' } },
+      c: { type: 'object', properties: {} },
+    });
+  });
+
+  it('should convert discriminated unions and intersections', async () => {
+    const { definition } = await parser.parse(
+      'Z.object({ event: Z.discriminatedUnion("kind", [Z.object({ kind: Z.literal("a"), x: Z.string() }), Z.object({ kind: Z.literal("b") })]), both: Z.intersection(Z.object({ a: Z.string() }), Z.object({ b: Z.number() })) })',
+    );
+    expect(toJSONSchema(definition, { includeDialect: false }).properties).toEqual({
+      event: {
+        oneOf: [
+          { type: 'object', properties: { kind: { const: 'a' }, x: { type: 'string' } }, required: ['kind', 'x'] },
+          { type: 'object', properties: { kind: { const: 'b' } }, required: ['kind'] },
+        ],
+      },
+      both: {
+        allOf: [
+          { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+          { type: 'object', properties: { b: { type: 'number' } }, required: ['b'] },
+        ],
+      },
+    });
+    expect(fromJSONSchema(toJSONSchema(definition)).definition).toEqual(definition);
+  });
+
+  it('should emit refs and the named definitions they reach under $defs', () => {
+    const definitions: Record<string, ZontaxDefinition> = {
+      Address: { type: 'object', fields: { country: { type: 'ref', name: 'Country' } } },
+      Country: { type: 'string', validations: { length: 2 } },
+    };
+    const definition: ZontaxDefinition = { type: 'object', fields: { home: { type: 'ref', name: 'Address', description: 'Home' } } };
+    expect(toJSONSchema(definition, { includeDialect: false })).toEqual({
+      type: 'object',
+      properties: { home: { $ref: '#/$defs/Address', description: 'Home' } },
+      required: ['home'],
+    });
+    expect(toJSONSchema(definition, { includeDialect: false, definitions }).$defs).toEqual({
+      Address: { type: 'object', properties: { country: { $ref: '#/$defs/Country' } }, required: ['country'] },
+      Country: { type: 'string', minLength: 2, maxLength: 2 },
+    });
+    expect(() => toJSONSchema(definition, { definitions: {} })).toThrow("Unresolved reference 'Address'.");
+  });
+
+  it('should anchor objects that refer to themselves', () => {
+    const definition: ZontaxDefinition = { type: 'object', fields: { tree: { type: 'object', fields: { name: { type: 'string' }, children: { type: 'array', of: { type: 'self' } } } } } };
+    expect(toJSONSchema(definition, { includeDialect: false }).properties.tree).toEqual({
+      $anchor: 'self.tree',
+      type: 'object',
+      properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#self.tree' } } },
+      required: ['name', 'children'],
+    });
+    expect(toJSONSchema({ type: 'lazy', name: 'Tree' }, { includeDialect: false })).toEqual({ $ref: '#/$defs/Tree' });
+  });
+
+  it('should represent nullable types', async () => {
+    const { definition } = await parser.parse('Z.object({ a: Z.string().nullable(), b: Z.literal("x").nullable() })');
+    const schema = toJSONSchema(definition, { includeDialect: false });
+    expect(schema.properties.a).toEqual({ type: ['string', 'null'] });
+    expect(schema.properties.b).toEqual({ anyOf: [{ const: 'x' }, { type: 'null' }] });
+  });
+
+  it('should emit extensions as vendor keywords', async () => {
+    const { definition } = await parser.parse('Z.object({ name: Z.string().ui$label("Name").doc$note("Internal").analyticsId("n") })');
+    const name = toJSONSchema(definition).properties.name;
+    expect(name).toEqual({ type: 'string', 'x-ui-label': 'Name', 'x-doc-note': 'Internal', 'x-analyticsId': 'n' });
+  });
+
+  it('should let callers choose namespaces and keyword names', async () => {
+    const { definition } = await parser.parse('Z.string().ui$label("Name").doc$note("Internal").analyticsId("n")');
+    expect(toJSONSchema(definition, { namespaces: ['ui'], vendorPrefix: 'x-acme', includeDialect: false })).toEqual({
+      type: 'string',
+      'x-acme-ui-label': 'Name',
+      'x-acme-analyticsId': 'n',
+    });
+    expect(toJSONSchema(definition, {
+      includeDialect: false,
+      vendorKeyword: (name, namespace) => (namespace === 'ui' ? `x-${name}` : undefined),
+    })).toEqual({ type: 'string', 'x-label': 'Name' });
+    expect(toJSONSchema(definition, { includeExtensions: false, includeDialect: false })).toEqual({ type: 'string' });
+  });
+
+  it('should throw for types without a JSON Schema equivalent', () => {
+    expect(() => toJSONSchema({ type: 'object', fields: { s: { type: 'symbol' } } })).toThrow(ZontaxMergeError);
+    expect(() => toJSONSchema({ type: 'object', fields: { s: { type: 'symbol' } } })).toThrow(
+      "Type 'symbol' at path 's' has no JSON Schema equivalent."
+    );
+  });
+});
+
+describe('fromJSONSchema', () => {
+  const parser = new ZontaxParser({ mode: 'loose' });
+
+  it('should import an object schema as a definition and source', async () => {
+    const { definition, source, unsupported } = fromJSONSchema({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 50, description: 'Full name' },
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', minimum: 0 },
+        role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+        nickname: { type: ['string', 'null'] },
+      },
+      required: ['name', 'email'],
+    });
+
+    expect(unsupported).toEqual([]);
+    expect(definition).toEqual({
+      type: 'object',
+      fields: {
+        name: { type: 'string', validations: { min: 1, max: 50 }, description: 'Full name' },
+        email: { type: 'string', validations: { email: true } },
+        age: { type: 'number', validations: { int: true, min: 0 }, optional: true },
+        role: { type: 'enum', values: ['admin', 'user'], defaultValue: 'user' },
+        tags: { type: 'array', of: { type: 'string' }, validations: { max: 5 }, optional: true },
+        nickname: { type: 'string', nullable: true, optional: true },
+      },
+    });
+    expect((await parser.parse(source)).definition).toEqual(definition);
+  });
+
+  it('should map vendor keywords to namespaced and global extensions', async () => {
+    const { definition, source } = fromJSONSchema({
+      type: 'string',
+      'x-ui-label': 'Email',
+      'x-ui-order': 2,
+      'x-internal': true,
+    });
+
+    expect(definition).toEqual({
+      type: 'string',
+      extensions: { internal: { value: true } },
+      namespaces: { ui: { label: { value: 'Email' }, order: { value: 2 } } },
+    });
+    expect(source).toBe('Z.string().internal(true).ui$order(2).ui$label("Email")');
+  });
+
+  it('should report keywords without a Zontax equivalent', () => {
+    const { definition, unsupported } = fromJSONSchema({
+      type: 'object',
+      title: 'User',
+      properties: {
+        code: { type: 'string', format: 'hostname' },
+      },
+      required: ['code'],
+      minProperties: 1,
+    });
+
+    expect(definition).toEqual({ type: 'object', fields: { code: { type: 'string' } } });
+    expect(unsupported.map(({ path, keyword }) => ({ path, keyword }))).toEqual([
+      { path: ['code'], keyword: 'format' },
+      { path: [], keyword: 'title' },
+      { path: [], keyword: 'minProperties' },
+    ]);
+  });
+
+  it('should inline local references and report recursive ones', () => {
+    const { definition, unsupported } = fromJSONSchema({
+      type: 'object',
+      properties: {
+        address: { $ref: '#/$defs/Address' },
+        node: { $ref: '#/$defs/Node' },
+      },
+      required: ['address', 'node'],
+      $defs: {
+        Address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+        Node: { type: 'object', properties: { next: { $ref: '#/$defs/Node' } } },
+      },
+    });
+
+    expect(definition.type === 'object' && definition.fields.address).toEqual({
+      type: 'object',
+      fields: { city: { type: 'string' } },
+    });
+    expect(unsupported).toEqual([
+      { path: ['node', 'next'], keyword: '$ref', message: "Recursive reference '#/$defs/Node' cannot be inlined." },
+    ]);
+  });
+
+  it('should import unions, tuples, records and nullable branches', () => {
+    const { definition } = fromJSONSchema({
+      type: 'object',
+      properties: {
+        id: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+        point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], items: false, minItems: 2, maxItems: 2 },
+        scores: { type: 'object', additionalProperties: { type: 'number' } },
+        parent: { anyOf: [{ type: 'string', format: 'uuid' }, { type: 'null' }] },
+        kind: { const: 'user' },
+        level: { enum: [1, 2, null] },
+      },
+      required: ['id', 'point', 'scores', 'parent', 'kind', 'level'],
+    });
+
+    expect(definition).toEqual({
+      type: 'object',
+      fields: {
+        id: { type: 'union', options: [{ type: 'string' }, { type: 'number' }] },
+        point: { type: 'tuple', items: [{ type: 'number' }, { type: 'number' }] },
+        scores: { type: 'record', keySchema: { type: 'string' }, valueSchema: { type: 'number' } },
+        parent: { type: 'string', validations: { uuid: true }, nullable: true },
+        kind: { type: 'literal', value: 'user' },
+        level: {
+          type: 'union',
+          options: [{ type: 'literal', value: 1 }, { type: 'literal', value: 2 }],
+          nullable: true,
+        },
+      },
+    });
+  });
+
+  it('should import patterns and IP formats', () => {
+    const { definition, unsupported } = fromJSONSchema({ type: 'string', pattern: '^\\d+$', format: 'ipv4' });
+    expect(unsupported).toEqual([]);
+    expect(definition).toEqual({
+      type: 'string',
+      validations: { ip: { version: 'v4' }, regex: { pattern: '^\\d+$', flags: '' } },
+    });
+  });
+
+  it('should report unsafe patterns and length keywords on dates', () => {
+    const { definition, unsupported } = fromJSONSchema({
+      type: 'object',
+      properties: {
+        code: { type: 'string', pattern: '^(a+)+$', maxLength: 8 },
+        broken: { type: 'string', pattern: '(' },
+        since: { type: 'string', format: 'date-time', minLength: 20, pattern: '^2' },
+      },
+      required: ['code', 'broken', 'since'],
+    });
+    expect(definition).toEqual({
+      type: 'object',
+      fields: { code: { type: 'string', validations: { max: 8 } }, broken: { type: 'string' }, since: { type: 'date' } },
+    });
+    expect(unsupported).toEqual([
+      { path: ['code'], keyword: 'pattern', message: "Pattern '^(a+)+$' is prone to catastrophic backtracking (nested quantifiers)." },
+      { path: ['broken'], keyword: 'pattern', message: "Pattern '(' is not a valid regular expression." },
+      { path: ['since'], keyword: 'minLength', message: "Keyword 'minLength' does not apply to a date-time string imported as a date." },
+      { path: ['since'], keyword: 'pattern', message: "Keyword 'pattern' does not apply to a date-time string imported as a date." },
+    ]);
+  });
+
+  it('should import exclusive bounds and steps', () => {
+    expect(fromJSONSchema({ type: 'number', exclusiveMinimum: 1, exclusiveMaximum: 0, multipleOf: 5 }).definition).toEqual({
+      type: 'number',
+      validations: { gt: 1, negative: true, multipleOf: 5 },
+    });
+  });
+
+  it('should import additionalProperties as object modifiers', () => {
+    const { definition } = fromJSONSchema({
+      type: 'object',
+      properties: {
+        a: { type: 'object', properties: {}, additionalProperties: false },
+        b: { type: 'object', properties: {}, additionalProperties: true },
+        c: { type: 'object', properties: {}, additionalProperties: { type: 'string' } },
+      },
+      required: ['a', 'b', 'c'],
+    });
+    expect(definition).toEqual({
+      type: 'object',
+      fields: {
+        a: { type: 'object', fields: {}, unknownKeys: 'strict' },
+        b: { type: 'object', fields: {}, unknownKeys: 'passthrough' },
+        c: { type: 'object', fields: {}, catchall: { type: 'string' } },
+      },
+    });
+  });
+
+  it('should import allOf as nested intersections', () => {
+    const { definition } = fromJSONSchema({ allOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }] });
+    expect(definition).toEqual({
+      type: 'intersection',
+      left: { type: 'string' },
+      right: { type: 'intersection', left: { type: 'number' }, right: { type: 'boolean' } },
+    });
+  });
+
+  it('should round-trip schemas exported by toJSONSchema', async () => {
+    const { definition } = await parser.parse(`
+      Z.object({
+        name: Z.string().min(1).describe("Name").ui$label("Name"),
+        age: Z.number().int().positive().optional(),
+        createdAt: Z.date()
+      })
+    `);
+    expect(fromJSONSchema(toJSONSchema(definition)).definition).toEqual(definition);
+  });
+
+  it('should produce source that merges with other schemas', async () => {
+    const { source } = fromJSONSchema({
+      type: 'object',
+      properties: { email: { type: 'string', format: 'email' } },
+      required: ['email'],
+    });
+    const { definition } = await parser.parse(source, 'Z.object({ email: Z.string().ui$label("Email") })');
+    expect(definition).toEqual({
+      type: 'object',
+      fields: {
+        email: {
+          type: 'string',
+          validations: { email: true },
+          namespaces: { ui: { label: { value: 'Email' } } },
+        },
+      },
+    });
+  });
+});
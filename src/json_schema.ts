@@ -0,0 +1,656 @@
+import { ZontaxMergeError } from "./errors";
+import type { ZontaxDefinition } from "./index";
+import { printDefinition } from "./printer";
+import { findCatastrophicBacktracking } from "./regexp";
+
+/** A JSON Schema (draft 2020-12) document or subschema */
+export type JSONSchema = { [keyword: string]: any };
+
+export const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+export interface ToJSONSchemaOptions {
+  /** Emit global and namespaced extension values as vendor keywords. Default: true */
+  includeExtensions?: boolean;
+  /** Only emit extensions from these namespaces. Default: all namespaces */
+  namespaces?: string[];
+  /** Prefix for vendor keywords. Default: "x" */
+  vendorPrefix?: string;
+  /**
+   * Name the vendor keyword for an extension. `namespace` is undefined for global
+   * extensions. Return undefined to leave the extension out.
+   * Default: `x-<namespace>-<name>` and `x-<name>`.
+   */
+  vendorKeyword?: (name: string, namespace?: string) => string | undefined;
+  /** Add `$schema` to the root schema. Default: true */
+  includeDialect?: boolean;
+  /**
+   * Named definitions that `ref` nodes point to. Every definition reachable from
+   * the root is emitted under `$defs`. Without them refs are left for the caller to resolve.
+   */
+  definitions?: Record<string, ZontaxDefinition>;
+  /** URI of the schema a ref points to. Default: `#/$defs/<name>` */
+  refPath?: (name: string) => string;
+  /**
+   * Prefix of the `$anchor` given to objects that contain `Z.self()`, followed by
+   * the object's path. Anchors must be unique within a document. Default: "self"
+   */
+  anchorPrefix?: string;
+}
+
+interface ConvertOptions extends ToJSONSchemaOptions {
+  /** Anchor of the nearest enclosing object, the target of `self` */
+  selfAnchor?: string;
+}
+
+function unsupported(message: string, path: string[]): ZontaxMergeError {
+  return new ZontaxMergeError(message, { code: "UNSUPPORTED_CONVERSION", path });
+}
+
+/** Patterns Zod uses for string formats that JSON Schema has no `format` for */
+const STRING_FORMAT_PATTERNS: Record<string, string> = {
+  cuid: "^[cC][^\\s-]{8,}$",
+  cuid2: "^[0-9a-z]+$",
+  ulid: "^[0-9A-HJKMNP-TV-Za-hjkmnp-tv-z]{26}$",
+  nanoid: "^[a-zA-Z0-9_-]{21}$",
+  emoji: "^(\\p{Extended_Pictographic}|\\p{Emoji_Component})+$",
+};
+
+/** Transforms change the value rather than constrain the input, so they have no keyword */
+const STRING_TRANSFORMS = ["trim", "toLowerCase", "toUpperCase"];
+
+function escapePattern(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** `pattern` takes a single regex, further patterns are added through `allOf` */
+function addPattern(schema: JSONSchema, pattern: string): void {
+  if (schema.pattern === undefined) {
+    schema.pattern = pattern;
+  } else {
+    schema.allOf = [...(schema.allOf || []), { pattern }];
+  }
+}
+
+/** `format` takes a single format, further formats are added through `allOf` */
+function addFormat(schema: JSONSchema, format: string): void {
+  if (schema.format === undefined) {
+    schema.format = format;
+  } else {
+    schema.allOf = [...(schema.allOf || []), { format }];
+  }
+}
+
+/** Bounds on the same side are merged, keeping the stricter of `minimum` and `exclusiveMinimum` or of their maximum pair */
+function addBound(schema: JSONSchema, side: "min" | "max", value: number, exclusive: boolean): void {
+  const [inclusiveKey, exclusiveKey] = side === "min" ? ["minimum", "exclusiveMinimum"] : ["maximum", "exclusiveMaximum"];
+  const current = schema[exclusiveKey] ?? schema[inclusiveKey];
+  if (current !== undefined) {
+    const stricter = side === "min" ? value > current : value < current;
+    if (!stricter && !(value === current && exclusive && schema[exclusiveKey] === undefined)) return;
+  }
+  delete schema[inclusiveKey];
+  delete schema[exclusiveKey];
+  schema[exclusive ? exclusiveKey : inclusiveKey] = value;
+}
+
+/** JSON has no bigints, so bigint bounds are written as numbers when that is lossless */
+function toNumber(value: unknown, path: string[]): unknown {
+  if (typeof value !== "bigint") return value;
+  if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+    throw unsupported(`Bigint ${value} at path '${path.join(".")}' cannot be represented as a JSON number.`, path);
+  }
+  return Number(value);
+}
+
+function applyValidations(schema: JSONSchema, def: any, path: string[]): void {
+  const kind = def.type === "number" || def.type === "bigint"
+    ? "number"
+    : def.type === "string" || def.type === "array"
+      ? def.type
+      : undefined;
+
+  for (const key in def.validations) {
+    const value = def.validations[key];
+    if (kind === "string" && key === "min") schema.minLength = value;
+    else if (kind === "string" && key === "max") schema.maxLength = value;
+    else if (kind === "string" && key === "length") schema.minLength = schema.maxLength = value;
+    else if (kind === "string" && key === "email") addFormat(schema, "email");
+    else if (kind === "string" && key === "url") addFormat(schema, "uri");
+    else if (kind === "string" && key === "uuid") addFormat(schema, "uuid");
+    else if (kind === "string" && key === "ip" && value !== true) addFormat(schema, value.version === "v4" ? "ipv4" : "ipv6");
+    else if (kind === "string" && key === "regex" && !/[^u]/.test(value.flags)) addPattern(schema, value.pattern);
+    else if (kind === "string" && key === "startsWith") addPattern(schema, `^${escapePattern(value)}`);
+    else if (kind === "string" && key === "endsWith") addPattern(schema, `${escapePattern(value)}$`);
+    else if (kind === "string" && key === "includes") addPattern(schema, escapePattern(value));
+    else if (kind === "string" && STRING_FORMAT_PATTERNS[key]) addPattern(schema, STRING_FORMAT_PATTERNS[key]);
+    else if (kind === "string" && STRING_TRANSFORMS.includes(key)) continue;
+    else if (kind === "array" && key === "min") schema.minItems = value;
+    else if (kind === "array" && key === "max") schema.maxItems = value;
+    else if (kind === "array" && key === "length") schema.minItems = schema.maxItems = value;
+    else if (kind === "number" && key === "min") addBound(schema, "min", Number(toNumber(value, path)), false);
+    else if (kind === "number" && key === "max") addBound(schema, "max", Number(toNumber(value, path)), false);
+    else if (kind === "number" && key === "gt") addBound(schema, "min", Number(toNumber(value, path)), true);
+    else if (kind === "number" && key === "lt") addBound(schema, "max", Number(toNumber(value, path)), true);
+    else if (kind === "number" && key === "multipleOf") schema.multipleOf = toNumber(value, path);
+    else if (kind === "number" && key === "int") schema.type = "integer";
+    else if (kind === "number" && key === "positive") addBound(schema, "min", 0, true);
+    else if (kind === "number" && key === "negative") addBound(schema, "max", 0, true);
+    else if (kind === "number" && key === "nonnegative") addBound(schema, "min", 0, false);
+    else if (kind === "number" && key === "nonpositive") addBound(schema, "max", 0, false);
+    // JSON numbers are always finite
+    else if (kind === "number" && key === "finite") continue;
+    else {
+      throw unsupported(
+        `Validation '${key}' on type '${def.type}' at path '${path.join(".")}' has no JSON Schema equivalent.`,
+        path,
+      );
+    }
+  }
+}
+
+function applyVendorKeywords(schema: JSONSchema, def: any, options: ToJSONSchemaOptions): void {
+  if (options.includeExtensions === false) return;
+  const prefix = options.vendorPrefix ?? "x";
+  const keyword = options.vendorKeyword ||
+    ((name: string, namespace?: string) => namespace ? `${prefix}-${namespace}-${name}` : `${prefix}-${name}`);
+
+  for (const name in def.extensions || {}) {
+    const key = keyword(name);
+    if (key) schema[key] = def.extensions[name].value;
+  }
+  for (const namespace in def.namespaces || {}) {
+    if (options.namespaces && !options.namespaces.includes(namespace)) continue;
+    for (const name in def.namespaces[namespace]) {
+      const key = keyword(name, namespace);
+      if (key) schema[key] = def.namespaces[namespace][name].value;
+    }
+  }
+}
+
+/** Whether `self` is used within an object, outside nested objects that bind their own */
+function containsSelf(def: any): boolean {
+  const children = [def.of, def.keySchema, def.valueSchema, def.left, def.right, def.catchall];
+  return [...children, ...Object.values(def.fields || {}), ...(def.items || []), ...(def.options || [])].some(
+    (child: any) => child && (child.type === "self" || (child.type !== "object" && containsSelf(child))),
+  );
+}
+
+function convert(def: any, options: ConvertOptions, path: string[]): JSONSchema {
+  if (!def || typeof def.type !== "string") {
+    throw unsupported(`Invalid definition at path '${path.join(".")}'.`, path);
+  }
+
+  let schema: JSONSchema;
+  switch (def.type) {
+    case "string":
+      schema = { type: "string" };
+      break;
+    case "number":
+      schema = { type: "number" };
+      break;
+    case "bigint":
+      schema = { type: "integer" };
+      break;
+    case "boolean":
+      schema = { type: "boolean" };
+      break;
+    case "date":
+      schema = { type: "string", format: "date-time" };
+      break;
+    case "null":
+      schema = { type: "null" };
+      break;
+    case "any":
+    case "unknown":
+      schema = {};
+      break;
+    case "never":
+      schema = { not: {} };
+      break;
+    case "object": {
+      // Anchors only allow letters, digits, `-`, `.` and `_`
+      const anchor = containsSelf(def)
+        ? [options.anchorPrefix ?? "self", ...path].join(".").replace(/[^A-Za-z0-9._-]/g, "_").replace(/^(?![A-Za-z_])/, "_")
+        : undefined;
+      const inner: ConvertOptions = anchor ? { ...options, selfAnchor: anchor } : options;
+      const properties: Record<string, JSONSchema> = {};
+      const required: string[] = [];
+      for (const key in def.fields || {}) {
+        const field = def.fields[key];
+        properties[key] = convert(field, inner, [...path, key]);
+        if (!field.optional && field.defaultValue === undefined) required.push(key);
+      }
+      schema = anchor ? { $anchor: anchor, type: "object", properties } : { type: "object", properties };
+      if (required.length > 0) schema.required = required;
+      if (def.catchall) {
+        schema.additionalProperties = convert(def.catchall, inner, path);
+      } else if (def.unknownKeys === "strict") {
+        schema.additionalProperties = false;
+      }
+      break;
+    }
+    case "array":
+      schema = { type: "array", items: convert(def.of, options, [...path, "[]"]) };
+      break;
+    case "record": {
+      schema = { type: "object", additionalProperties: convert(def.valueSchema, options, path) };
+      const keySchema = convert(def.keySchema, options, path);
+      // A plain string key schema adds nothing, property names are always strings
+      if (!(Object.keys(keySchema).length === 1 && keySchema.type === "string")) {
+        schema.propertyNames = keySchema;
+      }
+      break;
+    }
+    case "tuple": {
+      const items = (def.items || []).map((item: any, i: number) => convert(item, options, [...path, String(i)]));
+      schema = { type: "array", prefixItems: items, items: false, minItems: items.length, maxItems: items.length };
+      break;
+    }
+    case "union":
+      schema = { anyOf: (def.options || []).map((option: any) => convert(option, options, path)) };
+      break;
+    case "discriminatedUnion":
+      // The discriminator makes options mutually exclusive
+      schema = { oneOf: (def.options || []).map((option: any) => convert(option, options, path)) };
+      break;
+    case "intersection":
+      schema = { allOf: [convert(def.left, options, path), convert(def.right, options, path)] };
+      break;
+    case "ref":
+    case "lazy":
+      schema = { $ref: options.refPath ? options.refPath(def.name) : `#/$defs/${def.name}` };
+      break;
+    case "self":
+      if (!options.selfAnchor) {
+        throw unsupported(`'self' at path '${path.join(".")}' is not inside an object.`, path);
+      }
+      schema = { $ref: `#${options.selfAnchor}` };
+      break;
+    case "enum": {
+      const values = Array.isArray(def.values) ? def.values : [def.values];
+      schema = values.every((v: unknown) => typeof v === "string") ? { type: "string", enum: values } : { enum: values };
+      break;
+    }
+    case "literal":
+      schema = { const: toNumber(def.value, path) };
+      break;
+    default:
+      throw unsupported(`Type '${def.type}' at path '${path.join(".")}' has no JSON Schema equivalent.`, path);
+  }
+
+  if (def.validations) {
+    applyValidations(schema, def, path);
+  }
+  if (def.nullable) {
+    schema = typeof schema.type === "string" && !schema.enum
+      ? { ...schema, type: [schema.type, "null"] }
+      : { anyOf: [schema, { type: "null" }] };
+  }
+  if (def.description !== undefined) {
+    schema.description = def.description;
+  }
+  if (def.defaultValue !== undefined) {
+    schema.default = toNumber(def.defaultValue, path);
+  }
+  applyVendorKeywords(schema, def, options);
+  return schema;
+}
+
+/** Add the names of all refs in a definition to `names` */
+function collectRefs(def: any, names: Set<string>): void {
+  if (!def || typeof def !== "object") return;
+  if (def.type === "ref" || def.type === "lazy") names.add(def.name);
+  const children = [def.of, def.keySchema, def.valueSchema, def.left, def.right, def.catchall];
+  for (const child of [...children, ...Object.values(def.fields || {}), ...(def.items || []), ...(def.options || [])]) {
+    collectRefs(child, names);
+  }
+}
+
+/**
+ * Convert a ZontaxDefinition into a JSON Schema (draft 2020-12) document.
+ * Extension values are emitted as `x-<namespace>-<name>` vendor keywords so UI
+ * metadata survives the conversion.
+ */
+export function toJSONSchema(definition: ZontaxDefinition, options: ToJSONSchemaOptions = {}): JSONSchema {
+  const schema = convert(definition, options, []);
+  if (options.definitions) {
+    const names = new Set<string>();
+    collectRefs(definition, names);
+    const $defs: Record<string, JSONSchema> = {};
+    // The set grows while it is iterated, so refs inside named definitions are included too
+    for (const name of names) {
+      const target = options.definitions[name];
+      if (!target) {
+        throw new ZontaxMergeError(`Unresolved reference '${name}'.`, { code: "UNRESOLVED_REF", path: [] });
+      }
+      $defs[name] = convert(target, options, []);
+      collectRefs(target, names);
+    }
+    if (names.size > 0) schema.$defs = $defs;
+  }
+  return options.includeDialect === false ? schema : { $schema: JSON_SCHEMA_DIALECT, ...schema };
+}
+
+// ============================================================================
+// JSON Schema import
+// ============================================================================
+
+export interface FromJSONSchemaOptions {
+  /** Prefix of vendor keywords that map to extensions. Default: "x" */
+  vendorPrefix?: string;
+  /**
+   * Namespaces to recognize in `x-<namespace>-<name>` keywords. By default the
+   * first dash-separated segment is always taken as the namespace.
+   */
+  namespaces?: string[];
+}
+
+/** A keyword that could not be represented in Zontax */
+export interface JSONSchemaImportIssue {
+  path: string[];
+  keyword: string;
+  message: string;
+}
+
+export interface JSONSchemaImportResult {
+  definition: ZontaxDefinition;
+  /** The definition printed as Zontax source */
+  source: string;
+  /** Keywords that have no Zontax equivalent and were left out */
+  unsupported: JSONSchemaImportIssue[];
+}
+
+/** Keywords that only structure the document and carry no meaning of their own */
+const STRUCTURAL_KEYWORDS = ["$schema", "$id", "$defs", "definitions", "$comment"];
+
+const STRING_FORMATS: Record<string, string> = { email: "email", uri: "url", url: "url", uuid: "uuid" };
+
+const IDENTIFIER_PART = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+interface ImportContext {
+  root: any;
+  options: FromJSONSchemaOptions;
+  unsupported: JSONSchemaImportIssue[];
+  /** $ref targets currently being inlined, to detect cycles */
+  resolving: string[];
+}
+
+function report(ctx: ImportContext, path: string[], keyword: string, message: string): void {
+  ctx.unsupported.push({ path, keyword, message });
+}
+
+/** Why a `pattern` cannot be imported as a regex check, the parser rejects the same patterns */
+function patternProblem(pattern: string): string | undefined {
+  try {
+    new RegExp(pattern);
+  } catch {
+    return "is not a valid regular expression";
+  }
+  const unsafe = findCatastrophicBacktracking(pattern);
+  return unsafe && `is prone to catastrophic backtracking (${unsafe})`;
+}
+
+function resolveRef(ref: string, ctx: ImportContext): any {
+  const match = /^#\/(\$defs|definitions)\/(.+)$/.exec(ref);
+  if (!match) return undefined;
+  const name = match[2].replace(/~1/g, "/").replace(/~0/g, "~");
+  return ctx.root?.[match[1]]?.[name];
+}
+
+/** Split `x-ui-label` into its namespace and extension name */
+function parseVendorKeyword(keyword: string, ctx: ImportContext): { namespace?: string; name: string } | undefined {
+  const prefix = `${ctx.options.vendorPrefix ?? "x"}-`;
+  if (!keyword.startsWith(prefix)) return undefined;
+  const rest = keyword.slice(prefix.length);
+  const dash = rest.indexOf("-");
+  if (dash > 0) {
+    const namespace = rest.slice(0, dash);
+    if (!ctx.options.namespaces || ctx.options.namespaces.includes(namespace)) {
+      return { namespace, name: rest.slice(dash + 1) };
+    }
+  }
+  return { name: rest };
+}
+
+/** A required property holding a distinct `const` in every object option, if there is one */
+function findDiscriminator(options: any[]): string | undefined {
+  if (!options.every((option) => option.type === "object")) return undefined;
+  return Object.keys(options[0].fields || {}).find((key) => {
+    const values = options.map((option) => option.fields?.[key]);
+    if (!values.every((field) => field && field.type === "literal" && !field.optional)) return false;
+    return new Set(values.map((field) => field.value)).size === values.length;
+  });
+}
+
+function importNode(schema: any, ctx: ImportContext, path: string[]): any {
+  if (schema === true) return { type: "unknown" };
+  if (schema === false) return { type: "never" };
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    report(ctx, path, "", "Schema must be an object or a boolean.");
+    return { type: "unknown" };
+  }
+
+  const used = new Set<string>(STRUCTURAL_KEYWORDS);
+  const take = (keyword: string): any => {
+    used.add(keyword);
+    return schema[keyword];
+  };
+
+  let def: any;
+  let nullable = false;
+
+  if (schema.$ref !== undefined) {
+    const ref = take("$ref");
+    const target = resolveRef(ref, ctx);
+    if (target === undefined) {
+      report(ctx, path, "$ref", `Cannot resolve reference '${ref}'.`);
+      def = { type: "unknown" };
+    } else if (ctx.resolving.includes(ref)) {
+      report(ctx, path, "$ref", `Recursive reference '${ref}' cannot be inlined.`);
+      def = { type: "unknown" };
+    } else {
+      ctx.resolving.push(ref);
+      def = importNode(target, ctx, path);
+      ctx.resolving.pop();
+    }
+  } else if (schema.const !== undefined) {
+    def = { type: "literal", value: take("const") };
+  } else if (Array.isArray(schema.enum)) {
+    const values = take("enum").filter((v: unknown) => v !== null);
+    nullable = values.length !== schema.enum.length;
+    used.add("type");
+    if (values.length === 1) {
+      def = { type: "literal", value: values[0] };
+    } else if (values.every((v: unknown) => typeof v === "string")) {
+      def = { type: "enum", values };
+    } else {
+      def = { type: "union", options: values.map((value: unknown) => ({ type: "literal", value })) };
+    }
+  } else if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const keyword = Array.isArray(schema.anyOf) ? "anyOf" : "oneOf";
+    const branches = take(keyword).filter((branch: any) => {
+      const isNull = branch && branch.type === "null" && Object.keys(branch).length === 1;
+      if (isNull) nullable = true;
+      return !isNull;
+    });
+    const options = branches.map((branch: any) => importNode(branch, ctx, path));
+    const discriminator = keyword === "oneOf" ? findDiscriminator(options) : undefined;
+    def = options.length === 1
+      ? options[0]
+      : discriminator ? { type: "discriminatedUnion", discriminator, options } : { type: "union", options };
+  } else if (Array.isArray(schema.allOf) && schema.allOf.length === 1) {
+    def = importNode(take("allOf")[0], ctx, path);
+  } else if (Array.isArray(schema.allOf) && schema.allOf.length > 1 && schema.type === undefined) {
+    // Nest further members on the right, like z.intersection(a, z.intersection(b, c))
+    const members = take("allOf").map((member: any) => importNode(member, ctx, path));
+    def = members.reduceRight((right: any, left: any) => ({ type: "intersection", left, right }));
+  } else if (Array.isArray(schema.type)) {
+    const types = take("type").filter((type: string) => type !== "null");
+    nullable = types.length !== schema.type.length;
+    const options = types.map((type: string) => importTyped({ ...schema, type }, type, ctx, path, used));
+    def = options.length === 1 ? options[0] : { type: "union", options };
+  } else if (typeof schema.type === "string") {
+    def = importTyped(schema, take("type"), ctx, path, used);
+  } else if (schema.properties || schema.additionalProperties !== undefined) {
+    def = importTyped(schema, "object", ctx, path, used);
+  } else if (schema.items !== undefined || schema.prefixItems !== undefined) {
+    def = importTyped(schema, "array", ctx, path, used);
+  } else {
+    def = { type: "unknown" };
+  }
+
+  if (nullable) def.nullable = true;
+  if (schema.description !== undefined) def.description = take("description");
+  if (schema.default !== undefined) def.defaultValue = take("default");
+
+  for (const keyword of Object.keys(schema)) {
+    if (used.has(keyword)) continue;
+    const vendor = parseVendorKeyword(keyword, ctx);
+    if (vendor && IDENTIFIER_PART.test(vendor.name) && (!vendor.namespace || IDENTIFIER_PART.test(vendor.namespace))) {
+      const entry = { value: schema[keyword] };
+      if (vendor.namespace) {
+        def.namespaces = def.namespaces || {};
+        def.namespaces[vendor.namespace] = def.namespaces[vendor.namespace] || {};
+        def.namespaces[vendor.namespace][vendor.name] = entry;
+      } else {
+        def.extensions = def.extensions || {};
+        def.extensions[vendor.name] = entry;
+      }
+    } else {
+      report(ctx, path, keyword, `Keyword '${keyword}' has no Zontax equivalent.`);
+    }
+  }
+  return def;
+}
+
+/** Import a schema with a single known `type`, marking the keywords it consumes */
+function importTyped(schema: any, type: string, ctx: ImportContext, path: string[], used: Set<string>): any {
+  const take = (keyword: string): any => {
+    used.add(keyword);
+    return schema[keyword];
+  };
+  const validations: Record<string, unknown> = {};
+  let def: any;
+
+  switch (type) {
+    case "string": {
+      def = { type: "string" };
+      if (schema.format === "date-time") {
+        take("format");
+        def = { type: "date" };
+        // Length and pattern checks on the date string have no equivalent on a date
+        for (const keyword of ["minLength", "maxLength", "pattern"]) {
+          if (schema[keyword] === undefined) continue;
+          take(keyword);
+          report(ctx, path, keyword, `Keyword '${keyword}' does not apply to a date-time string imported as a date.`);
+        }
+        break;
+      } else if (schema.format !== undefined && STRING_FORMATS[schema.format]) {
+        validations[STRING_FORMATS[take("format")]] = true;
+      } else if (schema.format === "ipv4" || schema.format === "ipv6") {
+        validations.ip = { version: take("format") === "ipv4" ? "v4" : "v6" };
+      }
+      if (typeof schema.pattern === "string") {
+        const pattern = take("pattern");
+        const problem = patternProblem(pattern);
+        if (problem) report(ctx, path, "pattern", `Pattern '${pattern}' ${problem}.`);
+        else validations.regex = { pattern, flags: "" };
+      }
+      if (schema.minLength !== undefined && schema.minLength === schema.maxLength) {
+        validations.length = take("minLength");
+        take("maxLength");
+      } else {
+        if (schema.minLength !== undefined) validations.min = take("minLength");
+        if (schema.maxLength !== undefined) validations.max = take("maxLength");
+      }
+      break;
+    }
+    case "integer":
+    case "number": {
+      def = { type: "number" };
+      if (type === "integer") validations.int = true;
+      if (schema.minimum !== undefined) validations.min = take("minimum");
+      if (schema.maximum !== undefined) validations.max = take("maximum");
+      if (schema.exclusiveMinimum === 0) validations.positive = take("exclusiveMinimum") === 0;
+      else if (typeof schema.exclusiveMinimum === "number") validations.gt = take("exclusiveMinimum");
+      if (schema.exclusiveMaximum === 0) validations.negative = take("exclusiveMaximum") === 0;
+      else if (typeof schema.exclusiveMaximum === "number") validations.lt = take("exclusiveMaximum");
+      if (typeof schema.multipleOf === "number") validations.multipleOf = take("multipleOf");
+      break;
+    }
+    case "boolean":
+      def = { type: "boolean" };
+      break;
+    case "null":
+      def = { type: "null" };
+      break;
+    case "object": {
+      const additional = schema.additionalProperties;
+      if (!schema.properties && additional && typeof additional === "object") {
+        take("additionalProperties");
+        const keySchema = schema.propertyNames !== undefined
+          ? importNode(take("propertyNames"), ctx, path)
+          : { type: "string" };
+        def = { type: "record", keySchema, valueSchema: importNode(additional, ctx, path) };
+        break;
+      }
+      const required: string[] = Array.isArray(schema.required) ? take("required") : [];
+      const fields: Record<string, any> = {};
+      for (const key in take("properties") || {}) {
+        fields[key] = importNode(schema.properties[key], ctx, [...path, key]);
+        if (!required.includes(key) && fields[key].defaultValue === undefined) {
+          fields[key].optional = true;
+        }
+      }
+      def = { type: "object", fields };
+      if (additional === false) {
+        take("additionalProperties");
+        def.unknownKeys = "strict";
+      } else if (additional === true) {
+        take("additionalProperties");
+        def.unknownKeys = "passthrough";
+      } else if (additional && typeof additional === "object") {
+        def.catchall = importNode(take("additionalProperties"), ctx, path);
+      }
+      break;
+    }
+    case "array": {
+      if (Array.isArray(schema.prefixItems)) {
+        const items = take("prefixItems").map((item: any, i: number) => importNode(item, ctx, [...path, String(i)]));
+        // A closed tuple repeats its length in items/minItems/maxItems
+        if (schema.items === false) take("items");
+        if (schema.minItems === items.length) take("minItems");
+        if (schema.maxItems === items.length) take("maxItems");
+        def = { type: "tuple", items };
+        break;
+      }
+      def = { type: "array", of: schema.items !== undefined ? importNode(take("items"), ctx, [...path, "[]"]) : { type: "unknown" } };
+      if (schema.minItems !== undefined && schema.minItems === schema.maxItems) {
+        validations.length = take("minItems");
+        take("maxItems");
+      } else {
+        if (schema.minItems !== undefined) validations.min = take("minItems");
+        if (schema.maxItems !== undefined) validations.max = take("maxItems");
+      }
+      break;
+    }
+    default:
+      report(ctx, path, "type", `Type '${type}' has no Zontax equivalent.`);
+      def = { type: "unknown" };
+  }
+
+  if (Object.keys(validations).length > 0) def.validations = validations;
+  return def;
+}
+
+/**
+ * Convert a JSON Schema document into a ZontaxDefinition and Zontax source.
+ * `x-<namespace>-<name>` vendor keywords become namespaced extensions and
+ * `x-<name>` keywords global ones. Local `$ref`s are inlined. Keywords without
+ * a Zontax equivalent are listed in `unsupported`.
+ */
+export function fromJSONSchema(schema: JSONSchema | boolean, options: FromJSONSchemaOptions = {}): JSONSchemaImportResult {
+  const ctx: ImportContext = { root: schema, options, unsupported: [], resolving: [] };
+  const definition = importNode(schema, ctx, []);
+  return { definition, source: printDefinition(definition), unsupported: ctx.unsupported };
+}
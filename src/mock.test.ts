@@ -0,0 +1,114 @@
+import { ZontaxParser, ZontaxMergeError, generateMock, validate } from './index';
+
+describe('generateMock', () => {
+  const parser = new ZontaxParser({ mode: 'loose' });
+  const definitionOf = async (source: string) => (await parser.parse(source)).definition;
+
+  const sources = [
+    'Z.string().min(3).max(8)',
+    'Z.string().length(4).toUpperCase()',
+    'Z.string().startsWith("id_").endsWith("!").includes("-").min(10)',
+    'Z.string().email().min(20)',
+    'Z.string().url()',
+    'Z.string().uuid()',
+    'Z.string().cuid()',
+    'Z.string().cuid2()',
+    'Z.string().ulid()',
+    'Z.string().nanoid()',
+    'Z.string().emoji()',
+    'Z.string().ipv4()',
+    'Z.string().ipv6()',
+    'Z.number().int().min(-5).max(5)',
+    'Z.number().gt(0).lt(1)',
+    'Z.number().positive().multipleOf(0.25).max(10)',
+    'Z.number().negative()',
+    'Z.bigint().min(10n).max(100n).multipleOf(7n)',
+    'Z.bigint().nonpositive()',
+    'Z.boolean()',
+    'Z.date()',
+    'Z.enum(["admin", "user", "guest"])',
+    'Z.literal("fixed")',
+    'Z.tuple([Z.string(), Z.number().int(), Z.boolean()])',
+    'Z.record(Z.string().min(2), Z.number())',
+    'Z.record(Z.enum(["a", "b"]), Z.string())',
+    'Z.array(Z.string().uuid()).min(2).max(4)',
+    'Z.union([Z.string().email(), Z.number().int()])',
+    'Z.discriminatedUnion("kind", [Z.object({ kind: Z.literal("cat"), lives: Z.number().int().max(9) }), Z.object({ kind: Z.literal("dog") })])',
+    'Z.intersection(Z.object({ a: Z.string() }), Z.object({ b: Z.number() }))',
+    'Z.object({ name: Z.string().min(1), nickname: Z.string().optional(), bio: Z.string().nullable(), role: Z.enum(["a", "b"]).default("b") }).strict()',
+    'Z.object({ name: Z.string(), children: Z.array(Z.self()) })',
+  ];
+
+  for (const mode of ['random', 'min', 'max'] as const) {
+    it(`should generate values that pass validation in ${mode} mode`, async () => {
+      for (const source of sources) {
+        const definition = await definitionOf(source);
+        for (const seed of [1, 2, 'fixtures']) {
+          const value = generateMock(definition, { seed, mode });
+          const result = validate(definition, value);
+          expect({ source, seed, issues: result.success ? [] : result.issues }).toEqual({ source, seed, issues: [] });
+        }
+      }
+    });
+  }
+
+  it('should fit formats to their length limits', async () => {
+    for (const source of ['Z.string().email().max(6)', 'Z.string().email().min(8).max(12)', 'Z.string().url().max(10)', 'Z.string().emoji().length(3)']) {
+      const definition = await definitionOf(source);
+      for (const mode of ['random', 'min', 'max'] as const) {
+        const value = generateMock(definition, { seed: 7, mode });
+        expect({ source, mode, value, valid: validate(definition, value).success }).toEqual({ source, mode, value, valid: true });
+      }
+    }
+    expect(() => generateMock({ type: 'string', validations: { email: true, max: 5 } })).toThrow(
+      "Cannot generate a value for the email at path '' within its length limits.",
+    );
+    expect(() => generateMock({ type: 'string', validations: { uuid: true, max: 10 } })).toThrow(ZontaxMergeError);
+  });
+
+  it('should be deterministic for a seed', async () => {
+    const definition = await definitionOf('Z.object({ id: Z.string().uuid(), tags: Z.array(Z.string()), score: Z.number() })');
+    expect(generateMock(definition, { seed: 42 })).toEqual(generateMock(definition, { seed: 42 }));
+    expect(generateMock(definition, { seed: 'a' })).toEqual(generateMock(definition, { seed: 'a' }));
+    expect(generateMock(definition, { seed: 42 })).not.toEqual(generateMock(definition, { seed: 43 }));
+  });
+
+  it('should generate boundary values', async () => {
+    const definition = await definitionOf(
+      'Z.object({ name: Z.string().min(2).max(6), age: Z.number().int().min(18).max(99), tags: Z.array(Z.string()).max(3), role: Z.enum(["a", "b", "c"]), note: Z.string().optional() })',
+    );
+    const min: any = generateMock(definition, { mode: 'min' });
+    expect(min.name).toHaveLength(2);
+    expect(min.age).toBe(18);
+    expect(min.tags).toEqual([]);
+    expect(min.role).toBe('a');
+    expect(min).not.toHaveProperty('note');
+    const max: any = generateMock(definition, { mode: 'max' });
+    expect(max.name).toHaveLength(6);
+    expect(max.age).toBe(99);
+    expect(max.tags).toHaveLength(3);
+    expect(max.role).toBe('c');
+    expect(max).toHaveProperty('note');
+    expect(generateMock(await definitionOf('Z.number().gt(1).lt(2)'), { mode: 'min' })).toBe(1.01);
+  });
+
+  it('should use examples and default values', async () => {
+    const user = await definitionOf('Z.object({ email: Z.string().email().doc$example("ada@example.com"), role: Z.string().default("user") })');
+    expect(generateMock(user, { example: 'doc.example' })).toEqual({ email: 'ada@example.com', role: 'user' });
+    expect(generateMock(user, { useDefaults: false })).not.toMatchObject({ email: 'ada@example.com' });
+    expect(generateMock(user, { useDefaults: false })).not.toMatchObject({ role: 'user' });
+
+    const code = await definitionOf('Z.string().regex(/^[A-Z]{3}$/).example("ABC")');
+    expect(generateMock(code, { example: 'example' })).toBe('ABC');
+    expect(() => generateMock(code)).toThrow("Cannot generate a value for the regex at path ''. Add an example or a default value.");
+  });
+
+  it('should follow refs up to maxDepth', async () => {
+    const refParser = new ZontaxParser({
+      definitions: { Node: { type: 'object', fields: { next: { type: 'lazy', name: 'Node', optional: true } } } },
+    });
+    const definition = await definitionOf('Z.object({ name: Z.string(), children: Z.array(Z.self()).min(1) })');
+    expect(() => generateMock(definition, { maxDepth: 2 })).toThrow(ZontaxMergeError);
+    expect(refParser.generateMock({ type: 'ref', name: 'Node' }, { mode: 'max', maxDepth: 3 })).toEqual({ next: { next: {} } });
+  });
+});
@@ -0,0 +1,435 @@
+import { ZontaxMergeError } from "./errors";
+import type { ZontaxDefinition } from "./index";
+
+export interface GenerateMockOptions {
+  /** The same seed and definition always give the same value. Default: 1 */
+  seed?: number | string;
+  /**
+   * `random` picks values anywhere within the validations, `min` and `max` pick the
+   * boundary values: exactly `min`/`max` lengths and ranges, the first or last enum
+   * value, and no or all optional fields. Default: "random"
+   */
+  mode?: "random" | "min" | "max";
+  /** Use `defaultValue` where a definition has one. Default: true */
+  useDefaults?: boolean;
+  /**
+   * Extension whose value is used as is where present, e.g. `"doc.example"` for
+   * `doc$example(...)` or `"example"` for a global extension. Takes precedence over defaults.
+   */
+  example?: string;
+  /** Named definitions that `ref` and `lazy` nodes point to */
+  definitions?: Record<string, ZontaxDefinition>;
+  /** How often refs, `Z.lazy()` and `Z.self()` are followed into themselves. Default: 3 */
+  maxDepth?: number;
+}
+
+interface MockContext {
+  random: () => number;
+  mode: "random" | "min" | "max";
+  useDefaults: boolean;
+  example?: { namespace?: string; name: string };
+  definitions: Record<string, ZontaxDefinition>;
+  maxDepth: number;
+  /** Refs and self-references followed so far */
+  depth: number;
+  /** Enclosing object definitions, innermost last, for Z.self() to refer back to */
+  objects: any[];
+}
+
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
+const ALPHANUMERIC = "abcdefghijklmnopqrstuvwxyz0123456789";
+const HEX = "0123456789abcdef";
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const NANOID = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_-";
+const EMOJIS = ["😀", "🎉", "🚀", "🌱", "🔥", "✨"];
+/** Length of random strings without a `max`, past their minimum */
+const STRING_SPAN = 16;
+/** String validations that decide the shape of the generated value */
+const STRING_FORMATS = ["email", "url", "uuid", "cuid", "cuid2", "ulid", "nanoid", "emoji", "ip"];
+/** Range of random numbers without bounds */
+const NUMBER_SPAN = 100;
+const ARRAY_SPAN = 3;
+
+/** FNV-1a, so string seeds work too */
+function hashSeed(seed: number | string): number {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32: small, fast and the same on every platform */
+function createRandom(seed: number | string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function unsupported(message: string, path: string[]): ZontaxMergeError {
+  return new ZontaxMergeError(message, { code: "UNSUPPORTED_CONVERSION", path });
+}
+
+function clone(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(clone);
+  if (value instanceof Date) return new Date(value.getTime());
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)]));
+  }
+  return value;
+}
+
+function decimals(value: number): number {
+  return (value.toString().split(".")[1] || "").length;
+}
+
+class MockGenerator {
+  constructor(private ctx: MockContext) {}
+
+  private integer(min: number, max: number): number {
+    if (max <= min) return min;
+    if (this.ctx.mode === "min") return min;
+    if (this.ctx.mode === "max") return max;
+    return min + Math.floor(this.ctx.random() * (max - min + 1));
+  }
+
+  private pick<T>(items: T[]): T {
+    return items[this.integer(0, items.length - 1)];
+  }
+
+  private characters(alphabet: string, length: number): string {
+    let text = "";
+    for (let i = 0; i < length; i++) {
+      text += alphabet[Math.floor(this.ctx.random() * alphabet.length)];
+    }
+    return text;
+  }
+
+  /** A random choice that the boundary modes always make the same way */
+  private chance(probability: number, boundary: boolean): boolean {
+    return this.ctx.mode === "random" ? this.ctx.random() < probability : boundary;
+  }
+
+  private exampleOf(def: any): { value: unknown } | undefined {
+    const example = this.ctx.example;
+    if (!example) return undefined;
+    const extensions = example.namespace ? def.namespaces?.[example.namespace] : def.extensions;
+    return extensions?.[example.name];
+  }
+
+  generate(def: any, path: string[]): unknown {
+    if (!def || typeof def.type !== "string") {
+      throw new ZontaxMergeError(`Invalid definition at path '${path.join(".")}'.`, { code: "INVALID_DEFINITION", path });
+    }
+    const example = this.exampleOf(def);
+    if (example) return clone(example.value);
+    if (this.ctx.useDefaults && def.defaultValue !== undefined) return clone(def.defaultValue);
+    // Boundary values are for the type itself, so null is only an occasional random pick
+    if (def.nullable && this.chance(0.1, false)) return null;
+    return this.generateType(def, path);
+  }
+
+  private generateType(def: any, path: string[]): unknown {
+    const validations = def.validations || {};
+    switch (def.type) {
+      case "string":
+        return this.generateString(validations, path);
+      case "number":
+        return this.generateNumber(validations, path);
+      case "bigint":
+        return this.generateBigInt(validations, path);
+      case "boolean":
+        return this.ctx.mode === "random" ? this.ctx.random() < 0.5 : this.ctx.mode === "max";
+      case "date": {
+        const min = typeof validations.min === "number" ? validations.min : Date.UTC(2000, 0, 1);
+        const max = typeof validations.max === "number" ? validations.max : Date.UTC(2030, 0, 1);
+        return new Date(this.integer(min, max));
+      }
+      case "symbol":
+        return Symbol(path.join(".") || "mock");
+      case "null":
+      case "any":
+      case "unknown":
+        return null;
+      case "undefined":
+      case "void":
+        return undefined;
+      case "never":
+        throw unsupported(`No value matches 'never' at path '${path.join(".")}'.`, path);
+      case "enum":
+        return this.pick([].concat(def.values));
+      case "literal":
+        return clone(def.value);
+      case "object":
+        return this.generateObject(def, path);
+      case "array": {
+        const count = this.count(validations);
+        return Array.from({ length: count }, (_, i) => this.generate(def.of, [...path, String(i)]));
+      }
+      case "tuple":
+        return (def.items || []).map((item: any, i: number) => this.generate(item, [...path, String(i)]));
+      case "record":
+        return this.generateRecord(def, path);
+      case "union":
+      case "discriminatedUnion":
+        if (!def.options?.length) throw unsupported(`Union without options at path '${path.join(".")}'.`, path);
+        return this.generate(this.pick(def.options), path);
+      case "intersection": {
+        const left = this.generate(def.left, path);
+        const right = this.generate(def.right, path);
+        const isObject = (value: unknown) => value !== null && typeof value === "object" && !Array.isArray(value);
+        return isObject(left) && isObject(right) ? { ...(left as object), ...(right as object) } : right;
+      }
+      case "ref":
+      case "lazy": {
+        const target = this.ctx.definitions[def.name];
+        if (!target) {
+          throw new ZontaxMergeError(`Unknown definition '${def.name}' at path '${path.join(".")}'.`, { code: "UNRESOLVED_REF", path });
+        }
+        return this.follow(target, path, []);
+      }
+      case "self": {
+        const object = this.ctx.objects[this.ctx.objects.length - 1];
+        if (!object) {
+          throw new ZontaxMergeError(`'self' at path '${path.join(".")}' is not inside an object.`, { code: "INVALID_DEFINITION", path });
+        }
+        return this.follow(object, path, this.ctx.objects.slice(0, -1));
+      }
+      default:
+        throw unsupported(`Type '${def.type}' at path '${path.join(".")}' has no mock values.`, path);
+    }
+  }
+
+  /** Generate a referenced definition one level deeper */
+  private follow(def: any, path: string[], objects: any[]): unknown {
+    if (this.ctx.depth >= this.ctx.maxDepth) {
+      throw unsupported(`Recursion at path '${path.join(".")}' is deeper than maxDepth (${this.ctx.maxDepth}).`, path);
+    }
+    return new MockGenerator({ ...this.ctx, depth: this.ctx.depth + 1, objects }).generate(def, path);
+  }
+
+  /** Past maxDepth, optional fields and arrays stay empty so recursion ends */
+  private get exhausted(): boolean {
+    return this.ctx.depth >= this.ctx.maxDepth;
+  }
+
+  private count(validations: any): number {
+    if (validations.length !== undefined) return validations.length;
+    const min = validations.min ?? 0;
+    if (this.exhausted) return min;
+    const max = validations.max ?? min + ARRAY_SPAN;
+    // Random arrays are rarely empty
+    return this.integer(this.ctx.mode === "random" ? Math.min(Math.max(min, 1), max) : min, max);
+  }
+
+  private generateObject(def: any, path: string[]): unknown {
+    this.ctx.objects.push(def);
+    try {
+      const output: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries<any>(def.fields || {})) {
+        const hasValue = this.exampleOf(field) || (this.ctx.useDefaults && field.defaultValue !== undefined);
+        if (field.optional && !hasValue && (this.exhausted || !this.chance(0.7, this.ctx.mode === "max"))) continue;
+        output[key] = this.generate(field, [...path, key]);
+      }
+      return output;
+    } finally {
+      this.ctx.objects.pop();
+    }
+  }
+
+  private generateRecord(def: any, path: string[]): unknown {
+    const keySchema = def.keySchema;
+    // Records keyed by an enum or literal need every key
+    if (keySchema?.type === "enum" || keySchema?.type === "literal") {
+      const keys: string[] = keySchema.type === "enum" ? [].concat(keySchema.values) : [keySchema.value];
+      return Object.fromEntries(keys.map((key) => [key, this.generate(def.valueSchema, [...path, key])]));
+    }
+    const output: Record<string, unknown> = {};
+    const count = this.exhausted ? 0 : this.integer(this.ctx.mode === "random" ? 1 : 0, ARRAY_SPAN);
+    for (let i = 0; i < count; i++) {
+      const key = String(this.generate(keySchema || { type: "string" }, [...path, `[key${i}]`]));
+      output[key] = this.generate(def.valueSchema, [...path, key]);
+    }
+    return output;
+  }
+
+  private generateString(validations: any, path: string[]): string {
+    if (validations.regex) {
+      throw unsupported(
+        `Cannot generate a value for the regex at path '${path.join(".")}'. Add an example or a default value.`,
+        path,
+      );
+    }
+    const prefix: string = validations.startsWith ?? "";
+    const suffix: string = validations.endsWith ?? "";
+    const infix: string = validations.includes ?? "";
+    const min: number = validations.length ?? validations.min ?? 0;
+    const max: number | undefined = validations.length ?? validations.max;
+
+    let target: number;
+    if (this.ctx.mode === "min") target = min;
+    else if (this.ctx.mode === "max") target = max ?? min + STRING_SPAN;
+    else {
+      // Readable lengths unless the validations ask for something else
+      const from = Math.max(min, Math.min(5, max ?? 5));
+      target = this.integer(from, Math.min(max ?? Infinity, from + 10));
+    }
+
+    let value: string;
+    const fill = (length: number) => this.characters(LOWERCASE, Math.max(length, 0));
+    // Emails and URLs use a shorter domain when the length limit leaves no room for example.com
+    if (validations.email) {
+      const domain = target > "@example.com".length ? "@example.com" : "@b.co";
+      value = `${fill(Math.max(1, target - domain.length))}${domain}`;
+    } else if (validations.url) {
+      const origin = target > "https://example.com/".length ? "https://example.com/" : "http://";
+      value = `${origin}${fill(Math.max(1, target - origin.length))}`;
+    } else if (validations.uuid) {
+      const hex = (length: number) => this.characters(HEX, length);
+      value = `${hex(8)}-${hex(4)}-4${hex(3)}-${this.characters("89ab", 1)}${hex(3)}-${hex(12)}`;
+    } else if (validations.cuid) {
+      value = `c${this.characters(ALPHANUMERIC, 24)}`;
+    } else if (validations.cuid2) {
+      value = `${this.characters(LOWERCASE, 1)}${this.characters(ALPHANUMERIC, 23)}`;
+    } else if (validations.ulid) {
+      value = `${this.characters("01234567", 1)}${this.characters(CROCKFORD, 25)}`;
+    } else if (validations.nanoid) {
+      value = this.characters(NANOID, 21);
+    } else if (validations.emoji) {
+      // Most emojis are two UTF-16 code units long, "✨" fills an odd length
+      value = "";
+      while (target - value.length >= 2) value += this.pick(EMOJIS.filter((emoji) => emoji.length === 2));
+      if (value.length < Math.max(1, target)) value += "✨";
+    } else if (validations.ip) {
+      const v6 = validations.ip !== true && validations.ip.version === "v6";
+      value = v6
+        ? Array.from({ length: 8 }, () => this.characters(HEX, 4)).join(":")
+        : Array.from({ length: 4 }, () => String(Math.floor(this.ctx.random() * 256))).join(".");
+    } else {
+      const fixed = prefix.length + infix.length + suffix.length;
+      value = `${prefix}${infix}${fill(target - fixed)}${suffix}`;
+    }
+
+    if (value.length < min || (max !== undefined && value.length > max)) {
+      const format = STRING_FORMATS.find((key) => validations[key]) ?? "string";
+      throw unsupported(
+        `Cannot generate a value for the ${format} at path '${path.join(".")}' within its length limits.`,
+        path,
+      );
+    }
+    if (validations.toUpperCase) value = value.toUpperCase();
+    if (validations.toLowerCase) value = value.toLowerCase();
+    return value;
+  }
+
+  /** The allowed range and step of a number, from its validations */
+  private numberRange(validations: any): { low: number; high: number; lowOpen: boolean; highOpen: boolean } {
+    let low = -Infinity;
+    let high = Infinity;
+    let lowOpen = false;
+    let highOpen = false;
+    const raise = (value: number, open: boolean) => {
+      if (value > low || (value === low && open)) [low, lowOpen] = [value, open];
+    };
+    const lower = (value: number, open: boolean) => {
+      if (value < high || (value === high && open)) [high, highOpen] = [value, open];
+    };
+    if (validations.min !== undefined) raise(Number(validations.min), false);
+    if (validations.gt !== undefined) raise(Number(validations.gt), true);
+    if (validations.positive) raise(0, true);
+    if (validations.nonnegative) raise(0, false);
+    if (validations.max !== undefined) lower(Number(validations.max), false);
+    if (validations.lt !== undefined) lower(Number(validations.lt), true);
+    if (validations.negative) lower(0, true);
+    if (validations.nonpositive) lower(0, false);
+    if (low === -Infinity) [low, lowOpen] = [high === Infinity ? 0 : high - NUMBER_SPAN, false];
+    if (high === Infinity) [high, highOpen] = [low + NUMBER_SPAN, false];
+    return { low, high, lowOpen, highOpen };
+  }
+
+  private generateNumber(validations: any, path: string[]): number {
+    const { low, high, lowOpen, highOpen } = this.numberRange(validations);
+    const step = validations.multipleOf !== undefined ? Number(validations.multipleOf) : validations.int ? 1 : undefined;
+    if (step !== undefined) {
+      const places = decimals(step);
+      let first = Math.ceil(low / step);
+      if (lowOpen && first * step === low) first++;
+      let last = Math.floor(high / step);
+      if (highOpen && last * step === high) last--;
+      if (first > last) throw unsupported(`No number at path '${path.join(".")}' satisfies its validations.`, path);
+      return Number((this.integer(first, last) * step).toFixed(places));
+    }
+    // Two decimals, moved inside open bounds
+    const margin = Math.min(0.01, (high - low) / 2);
+    const from = lowOpen ? low + margin : low;
+    const to = highOpen ? high - margin : high;
+    if (this.ctx.mode === "min") return from;
+    if (this.ctx.mode === "max") return to;
+    const value = Math.round((from + this.ctx.random() * (to - from)) * 100) / 100;
+    return Math.min(Math.max(value, from), to);
+  }
+
+  private generateBigInt(validations: any, path: string[]): bigint {
+    const zero = BigInt(0);
+    const one = BigInt(1);
+    let low: bigint | undefined;
+    let high: bigint | undefined;
+    const raise = (value: bigint) => {
+      if (low === undefined || value > low) low = value;
+    };
+    const lower = (value: bigint) => {
+      if (high === undefined || value < high) high = value;
+    };
+    if (validations.min !== undefined) raise(BigInt(validations.min));
+    if (validations.gt !== undefined) raise(BigInt(validations.gt) + one);
+    if (validations.positive) raise(one);
+    if (validations.nonnegative) raise(zero);
+    if (validations.max !== undefined) lower(BigInt(validations.max));
+    if (validations.lt !== undefined) lower(BigInt(validations.lt) - one);
+    if (validations.negative) lower(-one);
+    if (validations.nonpositive) lower(zero);
+    const span = BigInt(NUMBER_SPAN);
+    const from: bigint = low ?? (high !== undefined ? high - span : zero);
+    const to: bigint = high ?? from + span;
+    const step = validations.multipleOf !== undefined ? BigInt(validations.multipleOf) : one;
+    // Integer division rounds towards zero, so ceil/floor are adjusted by the sign
+    let first = from / step;
+    if (first * step < from) first += one;
+    let last = to / step;
+    if (last * step > to) last -= one;
+    if (first > last) throw unsupported(`No bigint at path '${path.join(".")}' satisfies its validations.`, path);
+    // Random picks stay within NUMBER_SPAN steps of the lower bound
+    const count = last - first < span ? Number(last - first) : NUMBER_SPAN;
+    const offset = BigInt(this.ctx.mode === "max" ? 0 : this.integer(0, count));
+    return (this.ctx.mode === "max" ? last : first + offset) * step;
+  }
+}
+
+/**
+ * Generate an example value that satisfies a definition, for fixtures, API mocks
+ * and load tests. Values are deterministic for a given `seed`.
+ */
+export function generateMock(definition: ZontaxDefinition, options: GenerateMockOptions = {}): unknown {
+  let example: MockContext["example"];
+  if (options.example) {
+    const [first, second] = options.example.split(/[.$]/);
+    example = second === undefined ? { name: first } : { namespace: first, name: second };
+  }
+  const generator = new MockGenerator({
+    random: createRandom(options.seed ?? 1),
+    mode: options.mode || "random",
+    useDefaults: options.useDefaults !== false,
+    example,
+    definitions: options.definitions || {},
+    maxDepth: options.maxDepth ?? 3,
+    depth: 0,
+    objects: [],
+  });
+  return generator.generate(definition, []);
+}
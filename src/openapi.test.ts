@@ -0,0 +1,64 @@
+import { ZontaxParser, ZontaxMergeError, ZontaxObjectDefinition, toOpenAPIComponents } from './index';
+
+describe('toOpenAPIComponents', () => {
+  const parser = new ZontaxParser({ mode: 'loose' });
+
+  it('should generate component schemas from named definitions', async () => {
+    const { definition: user } = await parser.parse(`
+      Z.object({
+        id: Z.string().uuid().api$readOnly(true),
+        email: Z.string().email().describe("Login").doc$example("ada@example.com"),
+        legacyId: Z.number().int().optional().doc$deprecated(true),
+        role: Z.enum(["admin", "user"]).default("user").ui$label("Role")
+      }).doc$title("User")
+    `);
+    const { definition: tag } = await parser.parse('Z.string().min(1).max(20)');
+
+    expect(toOpenAPIComponents({ User: user, Tag: tag })).toEqual({
+      schemas: {
+        User: {
+          type: 'object',
+          title: 'User',
+          properties: {
+            id: { type: 'string', format: 'uuid', readOnly: true },
+            email: { type: 'string', format: 'email', description: 'Login', example: 'ada@example.com' },
+            legacyId: { type: 'integer', deprecated: true },
+            role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+          },
+          required: ['id', 'email'],
+        },
+        Tag: { type: 'string', minLength: 1, maxLength: 20 },
+      },
+    });
+  });
+
+  it('should apply a custom field mapping and emit selected namespaces as x- fields', async () => {
+    const { definition } = await parser.parse(
+      'Z.string().api$sample("abc").api$owner("billing").doc$example("x").ui$label("Code")',
+    );
+    const { schemas } = toOpenAPIComponents(
+      { Code: definition },
+      { fieldMapping: { 'api.sample': 'example', 'doc.example': undefined }, namespaces: ['api'] },
+    );
+    expect(schemas.Code).toEqual({ type: 'string', example: 'abc', 'x-api-owner': 'billing' });
+  });
+
+  it('should point refs at other components', async () => {
+    const refParser = new ZontaxParser({ definitions: { Address: { type: 'object', fields: {} } } });
+    const { definition } = await refParser.parse('Z.object({ home: Z.ref("Address").nullable() })');
+    expect(toOpenAPIComponents({ User: definition }).schemas.User.properties).toEqual({
+      home: { anyOf: [{ $ref: '#/components/schemas/Address' }, { type: 'null' }] },
+    });
+  });
+
+  it('should keep self anchors unique across components', () => {
+    const tree: ZontaxObjectDefinition = { type: 'object', fields: { name: { type: 'string' }, children: { type: 'array', of: { type: 'self' } } } };
+    const { schemas } = toOpenAPIComponents({ Menu: tree, Tree: tree });
+    expect(schemas.Menu.$anchor).toBe('Menu.self');
+    expect(schemas.Tree.properties.children).toEqual({ type: 'array', items: { $ref: '#Tree.self' } });
+  });
+
+  it('should reject invalid component names', () => {
+    expect(() => toOpenAPIComponents({ 'User Profile': { type: 'string' } })).toThrow(ZontaxMergeError);
+  });
+});
@@ -0,0 +1,74 @@
+import { ZontaxMergeError } from "./errors";
+import type { ZontaxDefinition } from "./index";
+import { JSONSchema, toJSONSchema } from "./json_schema";
+
+/** Namespaced extensions that map onto OpenAPI schema fields by default */
+export const DEFAULT_OPENAPI_FIELD_MAPPING: Record<string, string> = {
+  "doc.example": "example",
+  "doc.examples": "examples",
+  "doc.deprecated": "deprecated",
+  "doc.title": "title",
+  "api.readOnly": "readOnly",
+  "api.writeOnly": "writeOnly",
+};
+
+export interface ToOpenAPIOptions {
+  /**
+   * Map `<namespace>.<extension>` to an OpenAPI schema field, e.g.
+   * `{ "doc.example": "example" }`. Merged over DEFAULT_OPENAPI_FIELD_MAPPING;
+   * map an entry to `undefined` to drop it.
+   */
+  fieldMapping?: Record<string, string | undefined>;
+  /**
+   * Namespaces whose unmapped extensions are emitted as `x-<namespace>-<name>`
+   * specification extensions. Default: none
+   */
+  namespaces?: string[];
+}
+
+/** The `components` section of an OpenAPI 3.1 document */
+export interface OpenAPIComponents {
+  schemas: Record<string, JSONSchema>;
+}
+
+const COMPONENT_NAME = /^[a-zA-Z0-9._-]+$/;
+
+/**
+ * Generate OpenAPI 3.1 `components.schemas` entries from named definitions.
+ * OpenAPI 3.1 schemas are JSON Schema 2020-12, so descriptions, defaults and
+ * validations are carried over as in toJSONSchema(). Namespaced extensions
+ * become OpenAPI fields through `fieldMapping`, and `Z.ref()` points at the
+ * component of the same name.
+ */
+export function toOpenAPIComponents(
+  definitions: Record<string, ZontaxDefinition>,
+  options: ToOpenAPIOptions = {},
+): OpenAPIComponents {
+  const mapping = { ...DEFAULT_OPENAPI_FIELD_MAPPING, ...options.fieldMapping };
+  const namespaces = options.namespaces || [];
+  const vendorKeyword = (name: string, namespace?: string): string | undefined => {
+    // Global extensions have no namespace to select them by
+    if (!namespace) return undefined;
+    const key = `${namespace}.${name}`;
+    if (key in mapping) return mapping[key];
+    return namespaces.includes(namespace) ? `x-${namespace}-${name}` : undefined;
+  };
+
+  const schemas: Record<string, JSONSchema> = {};
+  for (const name in definitions) {
+    if (!COMPONENT_NAME.test(name)) {
+      throw new ZontaxMergeError(
+        `Invalid component name '${name}'. Names may only contain letters, digits, '.', '-' and '_'.`,
+        { code: "INVALID_INPUT" },
+      );
+    }
+    schemas[name] = toJSONSchema(definitions[name], {
+      includeDialect: false,
+      vendorKeyword,
+      refPath: (ref) => `#/components/schemas/${ref}`,
+      // Anchors are shared by the whole document
+      anchorPrefix: `${name}.self`,
+    });
+  }
+  return { schemas };
+}
@@ -0,0 +1,113 @@
+import { ZontaxParser, printDefinition } from './index';
+
+describe('printDefinition', () => {
+  const parser = new ZontaxParser({ mode: 'loose' });
+
+  it('should print a definition as canonical Zontax source', async () => {
+    const { definition } = await parser.parse(`
+      Z.object({
+        name: Z.string().min(1).max(50).describe("Full name").ui$label("Name").ui$width(6).internal(),
+        "first-login": Z.date().optional()
+      })
+    `);
+    expect(printDefinition(definition)).toBe(
+      [
+        'Z.object({',
+        '  name: Z.string().min(1).max(50).describe("Full name").internal().ui$label("Name").ui$width(6),',
+        '  "first-login": Z.date().optional()',
+        '})',
+      ].join('\n'),
+    );
+  });
+
+  it('should round-trip every kind of definition', async () => {
+    const source = `
+      Z.object({
+        user: Z.object({
+          email: Z.string().email().ui$label("Email"),
+          age: Z.number().int().min(-1).nullable().default(null)
+        }).describe("The user"),
+        tags: Z.array(Z.string().length(3)).max(5),
+        scores: Z.record(Z.string(), Z.number()),
+        point: Z.tuple([Z.number(), Z.number()]),
+        id: Z.union([Z.string().uuid(), Z.number()]),
+        role: Z.enum(["admin", "user"]).default("user"),
+        level: Z.enum([1, 2]),
+        kind: Z.literal("person"),
+        note: Z.string().describe("Line one\\nLine \\"two\\"").optional(),
+        config: Z.any().default({ theme: "dark", sizes: [1, 2] }).ui$options({ columns: 2, labels: ["a", "b"] }),
+        flags: Z.boolean().ui$choices("on", "off").ui$empty(),
+        code: Z.string().trim().regex(/^[a-z\\/]+$/i).startsWith("a").ipv6(),
+        price: Z.number().gt(0).lte(100).multipleOf(0.01),
+        stock: Z.bigint().nonnegative().lt(10000n).default(-1n),
+        strictBox: Z.object({ w: Z.number() }).strict(),
+        bag: Z.object({}).catchall(Z.string().min(1)).passthrough()
+      })
+    `;
+    const { definition } = await parser.parse(source);
+    const printed = printDefinition(definition);
+
+    const reparsed = await parser.parse(printed);
+    expect(reparsed.definition).toEqual(definition);
+    expect(printDefinition(reparsed.definition)).toBe(printed);
+  });
+
+  it('should keep extension values that are object literals as plain data', async () => {
+    const { definition } = await parser.parse('Z.string().ui$options({ columns: 2 })');
+    expect(definition).toEqual({
+      type: 'string',
+      namespaces: { ui: { options: { value: { columns: 2 } } } },
+    });
+  });
+
+  it('should print merged overlays back to a single source', async () => {
+    const { definition } = await parser.parse(
+      'Z.object({ name: Z.string().min(1) })',
+      'Z.object({ name: Z.string().ui$label("Name") })',
+    );
+    const printed = printDefinition(definition);
+    expect(printed).toBe('Z.object({\n  name: Z.string().min(1).ui$label("Name")\n})');
+    expect((await parser.parse(printed)).definition).toEqual(definition);
+  });
+
+  it('should print discriminated unions and intersections', async () => {
+    const { definition } = await parser.parse(
+      'Z.intersection(Z.discriminatedUnion("kind", [Z.object({ kind: Z.literal("a") })]), Z.object({ id: Z.string() }))',
+    );
+    const printed = printDefinition(definition);
+    expect(printed).toBe(
+      'Z.intersection(Z.discriminatedUnion("kind", [Z.object({\n  kind: Z.literal("a")\n})]), Z.object({\n  id: Z.string()\n}))',
+    );
+    expect((await parser.parse(printed)).definition).toEqual(definition);
+  });
+
+  it('should print refs', () => {
+    expect(printDefinition({ type: 'ref', name: 'Address', optional: true })).toBe('Z.ref("Address").optional()');
+    expect(printDefinition({ type: 'array', of: { type: 'lazy', name: 'Comment' } })).toBe('Z.array(Z.lazy("Comment"))');
+    expect(printDefinition({ type: 'object', fields: { children: { type: 'array', of: { type: 'self' } } } })).toBe(
+      'Z.object({\n  children: Z.array(Z.self())\n})',
+    );
+  });
+
+  it('should print custom error messages', async () => {
+    const { definition } = await parser.parse(
+      'Z.object({ name: Z.string("Must be text").min(3, "Too short").ipv6({ message: "IPv6 only", params: { field: "name" } }) }, "Expected a user")',
+    );
+    const printed = printDefinition(definition);
+    expect(printed).toBe(
+      'Z.object({\n  name: Z.string("Must be text").min(3, "Too short").ipv6({ message: "IPv6 only", params: { field: "name" } })\n}, "Expected a user")',
+    );
+    expect((await parser.parse(printed)).definition).toEqual(definition);
+  });
+
+  it('should use registered extension signatures for array values', async () => {
+    const strictParser = new ZontaxParser({}, [
+      [{ name: 'choices', allowedOn: ['string'], args: ['array'] }],
+    ]);
+    const { definition } = await strictParser.parse('Z.string().choices(["a", "b"])');
+    const printed = strictParser.print(definition);
+    expect(printed).toBe('Z.string().choices(["a", "b"])');
+    expect((await strictParser.parse(printed)).definition).toEqual(definition);
+    expect(printDefinition(definition)).toBe('Z.string().choices("a", "b")');
+  });
+});
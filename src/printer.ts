@@ -0,0 +1,158 @@
+import { ZontaxMergeError } from "./errors";
+import type { Extension, ZontaxDefinition, ZontaxMessage } from "./index";
+
+export interface PrintOptions {
+  /**
+   * Registered extensions, in the shape returned by `parser.getExtensions()`.
+   * Used to print array values of single-argument extensions as one array
+   * literal instead of spreading them into several arguments.
+   */
+  extensions?: Record<string, Extension[]>;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function printKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+/** Print a plain data value as a literal the parser accepts */
+function printValue(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (typeof value === "bigint") return `${value}n`;
+  if (typeof value === "number") {
+    if (Number.isNaN(value)) return "NaN";
+    if (value === Infinity) return "Infinity";
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(printValue).join(", ")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).map(([key, v]) => `${printKey(key)}: ${printValue(v)}`);
+    return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Print the arguments of an extension call. Several arguments are stored as an
+ * array, so an array value is spread unless the extension takes a single argument
+ * or the array has one element.
+ */
+function printExtensionArgs(value: unknown, extension?: Extension): string {
+  if (Array.isArray(value) && value.length !== 1 && extension?.args.length !== 1) {
+    return value.map(printValue).join(", ");
+  }
+  return printValue(value);
+}
+
+/** Print a custom error message, as a plain string unless it has params */
+function printMessage(message: ZontaxMessage): string {
+  return message.params ? printValue(message) : printValue(message.message);
+}
+
+function printValidation(key: string, value: any, message?: ZontaxMessage): string {
+  const args: string[] = [];
+  if (key === "regex") {
+    args.push(String(new RegExp(value.pattern, value.flags)));
+  } else if (key === "ip" && value !== true) {
+    return `.ip${value.version}(${message ? printMessage(message) : ""})`;
+  } else if (value !== true) {
+    args.push(printValue(value));
+  }
+  if (message) args.push(printMessage(message));
+  return `.${key}(${args.join(", ")})`;
+}
+
+function findExtension(options: PrintOptions, name: string, namespace = "_global"): Extension | undefined {
+  return options.extensions?.[namespace]?.find((extension) => extension.name === name);
+}
+
+function printNode(def: any, indent: string, path: string[], options: PrintOptions): string {
+  if (!def || typeof def.type !== "string") {
+    throw new ZontaxMergeError(`Invalid definition at path '${path.join(".")}'.`, {
+      code: "UNSUPPORTED_CONVERSION",
+      path,
+    });
+  }
+
+  const inner = indent + "  ";
+  // Error message for the type check, after the arguments of types that take any
+  const message = def.typeMessage ? `, ${printMessage(def.typeMessage)}` : "";
+  let chain: string;
+  if (def.type === "object") {
+    const fields = Object.entries(def.fields || {}).map(
+      ([key, value]) => `${inner}${printKey(key)}: ${printNode(value, inner, [...path, key], options)}`,
+    );
+    chain = fields.length > 0 ? `Z.object({\n${fields.join(",\n")}\n${indent}}${message})` : `Z.object({}${message})`;
+    if (def.unknownKeys) {
+      chain += `.${def.unknownKeys}()`;
+    }
+    if (def.catchall) {
+      chain += `.catchall(${printNode(def.catchall, indent, path, options)})`;
+    }
+  } else if (def.type === "array") {
+    chain = `Z.array(${printNode(def.of, indent, [...path, "[]"], options)}${message})`;
+  } else if (def.type === "record") {
+    chain = `Z.record(${printNode(def.keySchema, indent, path, options)}, ${printNode(def.valueSchema, indent, path, options)}${message})`;
+  } else if (def.type === "tuple") {
+    const items = (def.items || []).map((item: any, i: number) => printNode(item, indent, [...path, String(i)], options));
+    chain = `Z.tuple([${items.join(", ")}]${message})`;
+  } else if (def.type === "union") {
+    const members = (def.options || []).map((option: any) => printNode(option, indent, path, options));
+    chain = `Z.union([${members.join(", ")}]${message})`;
+  } else if (def.type === "discriminatedUnion") {
+    const members = (def.options || []).map((option: any) => printNode(option, indent, path, options));
+    chain = `Z.discriminatedUnion(${printValue(def.discriminator)}, [${members.join(", ")}]${message})`;
+  } else if (def.type === "ref" || def.type === "lazy") {
+    chain = `Z.${def.type}(${printValue(def.name)})`;
+  } else if (def.type === "intersection") {
+    chain = `Z.intersection(${printNode(def.left, indent, path, options)}, ${printNode(def.right, indent, path, options)})`;
+  } else if (def.type === "enum") {
+    const values = Array.isArray(def.values) ? def.values : [def.values];
+    chain = `Z.enum([${values.map(printValue).join(", ")}]${message})`;
+  } else if (def.type === "literal") {
+    chain = `Z.literal(${printValue(def.value)}${message})`;
+  } else {
+    chain = `Z.${def.type}(${def.typeMessage ? printMessage(def.typeMessage) : ""})`;
+  }
+
+  // The parser reads chains from the outside in, so calls are printed in reverse
+  // key order to give back the same key order when parsed again
+  for (const key of Object.keys(def.validations || {}).reverse()) {
+    chain += printValidation(key, def.validations[key], def.messages?.[key]);
+  }
+  if (def.description !== undefined) {
+    chain += `.describe(${printValue(def.description)})`;
+  }
+  if (def.defaultValue !== undefined) {
+    chain += `.default(${printValue(def.defaultValue)})`;
+  }
+  if (def.nullable) {
+    chain += ".nullable()";
+  }
+  if (def.optional) {
+    chain += ".optional()";
+  }
+  for (const name of Object.keys(def.extensions || {}).reverse()) {
+    const args = printExtensionArgs(def.extensions[name].value, findExtension(options, name));
+    chain += `.${name}(${args})`;
+  }
+  for (const namespace of Object.keys(def.namespaces || {}).reverse()) {
+    for (const name of Object.keys(def.namespaces[namespace]).reverse()) {
+      const args = printExtensionArgs(def.namespaces[namespace][name].value, findExtension(options, name, namespace));
+      chain += `.${namespace}$${name}(${args})`;
+    }
+  }
+  return chain;
+}
+
+/**
+ * Print a ZontaxDefinition as canonical `Z.`-prefixed Zontax source, keeping every
+ * global and namespaced extension call. Parsing the output gives back an equal
+ * definition.
+ */
+export function printDefinition(definition: ZontaxDefinition, options: PrintOptions = {}): string {
+  return printNode(definition, "", [], options);
+}
@@ -0,0 +1,107 @@
+/** A term of a parsed pattern with its quantifier, `max` is Infinity for `*`, `+` and `{n,}` */
+interface RegExpTerm {
+  /** The source of an atom, or undefined for a group */
+  atom?: string;
+  alternatives?: RegExpTerm[][];
+  min: number;
+  max: number;
+}
+
+/** Parse the alternatives of a pattern, or of a group up to its closing parenthesis */
+function parseAlternatives(source: string, position: { index: number }): RegExpTerm[][] {
+  const alternatives: RegExpTerm[][] = [[]];
+  while (position.index < source.length) {
+    const char = source[position.index];
+    if (char === ")") break;
+    if (char === "|") {
+      alternatives.push([]);
+      position.index++;
+      continue;
+    }
+    const terms = alternatives[alternatives.length - 1];
+    if (char === "(") {
+      // Skip the group prefix of `(?:`, `(?=`, `(?!`, `(?<=`, `(?<!` and `(?<name>`
+      position.index++;
+      if (source[position.index] === "?") {
+        const named = /^\?<[A-Za-z_$][\w$]*>/.exec(source.slice(position.index));
+        position.index += named ? named[0].length : /^\?<?[:=!]?/.exec(source.slice(position.index))![0].length;
+      }
+      const group = parseAlternatives(source, position);
+      position.index++;
+      terms.push({ alternatives: group, min: 1, max: 1 });
+    } else if (char === "[") {
+      let end = position.index + 1;
+      while (end < source.length && source[end] !== "]") end += source[end] === "\\" ? 2 : 1;
+      terms.push({ atom: source.slice(position.index, end + 1), min: 1, max: 1 });
+      position.index = end + 1;
+    } else if ("*+?{".includes(char) && terms.length > 0) {
+      const quantifier = /^(?:([*+?])|\{(\d+)(,(\d*))?\})\??/.exec(source.slice(position.index));
+      if (!quantifier) {
+        // A `{` that does not start a quantifier is a literal character
+        terms.push({ atom: char, min: 1, max: 1 });
+        position.index++;
+        continue;
+      }
+      const term = terms[terms.length - 1];
+      const [, symbol, min, range, max] = quantifier;
+      term.min = symbol ? (symbol === "+" ? 1 : 0) : Number(min);
+      term.max = symbol ? (symbol === "?" ? 1 : Infinity) : range === undefined ? Number(min) : max ? Number(max) : Infinity;
+      position.index += quantifier[0].length;
+    } else if (char === "\\") {
+      terms.push({ atom: source.slice(position.index, position.index + 2), min: 1, max: 1 });
+      position.index += 2;
+    } else {
+      terms.push({ atom: char, min: 1, max: 1 });
+      position.index++;
+    }
+  }
+  return alternatives;
+}
+
+/** Whether a term, or anything inside it, repeats without an upper bound */
+function repeatsUnbounded(term: RegExpTerm): boolean {
+  return term.max === Infinity || (term.alternatives || []).some((terms) => terms.some(repeatsUnbounded));
+}
+
+/** The first atom an alternative must match, undefined when it starts with a group or is empty */
+function firstAtom(terms: RegExpTerm[]): string | undefined {
+  return terms[0]?.atom;
+}
+
+function findInTerms(terms: RegExpTerm[]): string | undefined {
+  for (const term of terms) {
+    if (!term.alternatives) continue;
+    if (term.max === Infinity) {
+      if (term.alternatives.some((inner) => inner.some(repeatsUnbounded))) {
+        return "nested quantifiers";
+      }
+      const starts = term.alternatives.map(firstAtom);
+      const overlaps = starts.some((atom, i) =>
+        atom !== undefined && starts.some((other, j) => j !== i && other !== undefined && (other === atom || other === "." || atom === ".")),
+      );
+      if (term.alternatives.length > 1 && overlaps) {
+        return "overlapping alternatives";
+      }
+    }
+    for (const inner of term.alternatives) {
+      const found = findInTerms(inner);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the construct of a regular expression that can make matching take
+ * exponential time, such as nested quantifiers `(a+)+` or repeated alternatives
+ * that can match the same text `(a|ab)*`. Returns undefined for safe patterns.
+ * The pattern is expected to be valid, e.g. checked by `new RegExp()` first.
+ */
+export function findCatastrophicBacktracking(source: string): string | undefined {
+  const alternatives = parseAlternatives(source, { index: 0 });
+  for (const terms of alternatives) {
+    const found = findInTerms(terms);
+    if (found) return found;
+  }
+  return undefined;
+}
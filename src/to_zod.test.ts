@@ -0,0 +1,187 @@
+import { ZontaxParser, ZontaxMergeError, ZontaxDefinition, ZontaxObjectDefinition, toZod } from './index';
+import { z as z3 } from 'zod';
+import { z as z4 } from 'zod/v4';
+
+describe('toZod', () => {
+  const parser = new ZontaxParser({ mode: 'loose' });
+
+  const userSource = `
+    Z.object({
+      name: Z.string().min(2).max(20).describe("Full name").ui$label("Name"),
+      email: Z.string().email(),
+      age: Z.number().int().positive().optional(),
+      role: Z.enum(["admin", "user"]).default("user"),
+      kind: Z.literal("person"),
+      tags: Z.array(Z.string()).max(3),
+      scores: Z.record(Z.string(), Z.number()),
+      point: Z.tuple([Z.number(), Z.number()]),
+      id: Z.union([Z.string().uuid(), Z.number()]),
+      nickname: Z.string().nullable()
+    })
+  `;
+
+  const validUser = {
+    name: 'Ada',
+    email: 'ada@example.com',
+    kind: 'person',
+    tags: ['a'],
+    scores: { math: 10 },
+    point: [1, 2],
+    id: 42,
+    nickname: null,
+  };
+
+  for (const zodVersion of ['3', '4'] as const) {
+    describe(`Zod ${zodVersion}`, () => {
+      it('should build a schema that accepts valid data and applies defaults', async () => {
+        const { definition } = await parser.parse(userSource);
+        const schema = toZod(definition, { zodVersion });
+        const result = schema.safeParse(validUser);
+        expect(result.success).toBe(true);
+        expect(result.data).toMatchObject({ role: 'user' });
+      });
+
+      it('should enforce validations', async () => {
+        const { definition } = await parser.parse(userSource);
+        const schema = toZod(definition, { zodVersion });
+        expect(schema.safeParse({ ...validUser, name: 'A' }).success).toBe(false);
+        expect(schema.safeParse({ ...validUser, email: 'nope' }).success).toBe(false);
+        expect(schema.safeParse({ ...validUser, age: -1 }).success).toBe(false);
+        expect(schema.safeParse({ ...validUser, age: 1.5 }).success).toBe(false);
+        expect(schema.safeParse({ ...validUser, role: 'guest' }).success).toBe(false);
+        expect(schema.safeParse({ ...validUser, kind: 'robot' }).success).toBe(false);
+        expect(schema.safeParse({ ...validUser, tags: ['a', 'b', 'c', 'd'] }).success).toBe(false);
+        expect(schema.safeParse({ ...validUser, point: [1] }).success).toBe(false);
+        expect(schema.safeParse({ ...validUser, id: 'not-a-uuid' }).success).toBe(false);
+        expect(schema.safeParse({ ...validUser, nickname: undefined }).success).toBe(false);
+      });
+
+      it('should apply string checks and transforms', async () => {
+        const { definition } = await parser.parse('Z.string().regex(/^[a-z]+-\\d+$/).startsWith("id").toLowerCase().trim()');
+        const schema = toZod(definition, { zodVersion });
+        expect(schema.parse('  ID-42 ')).toBe('id-42');
+        expect(schema.safeParse('xx-42').success).toBe(false);
+        const ip = toZod({ type: 'string', validations: { ip: { version: 'v4' } } }, { zodVersion });
+        expect(ip.safeParse('10.0.0.1').success).toBe(true);
+        expect(ip.safeParse('::1').success).toBe(false);
+      });
+
+      it('should apply exclusive bounds and bigint checks', async () => {
+        const { definition: price } = await parser.parse('Z.number().gt(0).lte(100).multipleOf(0.5)');
+        const priceSchema = toZod(price, { zodVersion });
+        expect(priceSchema.safeParse(2.5).success).toBe(true);
+        expect(priceSchema.safeParse(0).success).toBe(false);
+        expect(priceSchema.safeParse(2.25).success).toBe(false);
+
+        const { definition: big } = await parser.parse('Z.bigint().nonnegative().lt(10n)');
+        const bigSchema = toZod(big, { zodVersion });
+        expect(bigSchema.safeParse(BigInt(9)).success).toBe(true);
+        expect(bigSchema.safeParse(BigInt(10)).success).toBe(false);
+        expect(bigSchema.safeParse(BigInt(-1)).success).toBe(false);
+      });
+
+      it('should apply unknown key modes and catchall schemas', async () => {
+        const { definition } = await parser.parse(
+          'Z.object({ strict: Z.object({ a: Z.string() }).strict(), loose: Z.object({}).passthrough(), counts: Z.object({}).catchall(Z.number()) })',
+        );
+        const schema = toZod(definition, { zodVersion });
+        const value = { strict: { a: 'x' }, loose: { extra: 1 }, counts: { n: 2 } };
+        expect(schema.parse(value)).toEqual(value);
+        expect(schema.safeParse({ ...value, strict: { a: 'x', b: 1 } }).success).toBe(false);
+        expect(schema.safeParse({ ...value, counts: { n: 'two' } }).success).toBe(false);
+      });
+
+      it('should carry descriptions over', async () => {
+        const { definition } = await parser.parse('Z.string().describe("A user name")');
+        expect(toZod(definition, { zodVersion }).description).toBe('A user name');
+      });
+    });
+  }
+
+  it('should build with the namespace passed in options', async () => {
+    const { definition } = await parser.parse('Z.string().min(1)');
+    expect(toZod(definition, { z: z3 })).toBeInstanceOf(z3.ZodString);
+    expect(toZod(definition, { z: z4 })).toBeInstanceOf(z4.ZodString);
+  });
+
+  it('should target the parser zodVersion', async () => {
+    const parser3 = new ZontaxParser({ zodVersion: '3' });
+    const parser4 = new ZontaxParser({ zodVersion: '4' });
+    const { definition } = await parser3.parse('Z.number().min(0)');
+    expect(parser3.toZod(definition)).toBeInstanceOf(z3.ZodNumber);
+    expect(parser4.toZod(definition)).toBeInstanceOf(z4.ZodNumber);
+  });
+
+  it('should only build version-independent IP checks for Zod 3', () => {
+    const definition = { type: 'string', validations: { ip: true } } as const;
+    expect(toZod(definition, { zodVersion: '3' }).safeParse('::1').success).toBe(true);
+    expect(() => toZod(definition)).toThrow(ZontaxMergeError);
+  });
+
+  it('should build discriminated unions and intersections', async () => {
+    const { definition: union } = await parser.parse('Z.discriminatedUnion("kind", [Z.object({ kind: Z.literal("a"), x: Z.string() }), Z.object({ kind: Z.literal("b") })])');
+    const { definition: both } = await parser.parse('Z.intersection(Z.object({ a: Z.string() }), Z.object({ b: Z.number() }))');
+    for (const zodVersion of ['3', '4'] as const) {
+      const schema = toZod(union, { zodVersion });
+      expect(schema.safeParse({ kind: 'a', x: 'x' }).success).toBe(true);
+      expect(schema.safeParse({ kind: 'a' }).success).toBe(false);
+      expect(schema.safeParse({ kind: 'c' }).success).toBe(false);
+      expect(toZod(both, { zodVersion }).safeParse({ a: 'a', b: 1 }).success).toBe(true);
+      expect(toZod(both, { zodVersion }).safeParse({ a: 'a' }).success).toBe(false);
+    }
+  });
+
+  it('should build refs from named definitions', () => {
+    const definitions: Record<string, any> = {
+      Tag: { type: 'string', validations: { min: 1 } },
+      Loop: { type: 'array', of: { type: 'ref', name: 'Loop' } },
+    };
+    const schema = toZod({ type: 'array', of: { type: 'ref', name: 'Tag' } }, { definitions });
+    expect(schema.safeParse(['a']).success).toBe(true);
+    expect(schema.safeParse(['']).success).toBe(false);
+    expect(() => toZod({ type: 'ref', name: 'Missing' })).toThrow("Unresolved reference 'Missing' at path ''.");
+    expect(() => toZod({ type: 'ref', name: 'Loop' }, { definitions })).toThrow("Reference cycle at path '[]': Loop -> Loop.");
+  });
+
+  it('should build self-references and lazy refs', () => {
+    const tree: ZontaxObjectDefinition = { type: 'object', fields: { name: { type: 'string' }, children: { type: 'array', of: { type: 'self' } } } };
+    for (const zodVersion of ['3', '4'] as const) {
+      const schema = toZod({ type: 'object', fields: { tree } }, { zodVersion });
+      expect(schema.safeParse({ tree: { name: 'a', children: [{ name: 'b', children: [] }] } }).success).toBe(true);
+      expect(schema.safeParse({ tree: { name: 'a', children: [{ children: [] }] } }).success).toBe(false);
+    }
+    const definitions: Record<string, ZontaxDefinition> = {
+      List: { type: 'object', fields: { next: { type: 'lazy', name: 'List', nullable: true } } },
+    };
+    expect(toZod({ type: 'ref', name: 'List' }, { definitions }).safeParse({ next: { next: null } }).success).toBe(true);
+    expect(() => toZod({ type: 'self' })).toThrow("'self' at path '' is not inside an object.");
+  });
+
+  it('should apply custom error messages', () => {
+    const definition: ZontaxDefinition = {
+      type: 'object',
+      fields: {
+        name: { type: 'string', validations: { min: 3 }, messages: { min: { message: 'Too short' } }, typeMessage: { message: 'Must be text' } },
+        host: { type: 'string', validations: { ip: { version: 'v4' } }, messages: { ip: { message: 'IPv4 only' } } },
+      },
+    };
+    for (const zodVersion of ['3', '4'] as const) {
+      const schema = toZod(definition, { zodVersion });
+      expect(schema.safeParse({ name: 'ab', host: 'x' }).error!.issues.map((issue) => issue.message)).toEqual(['Too short', 'IPv4 only']);
+      expect(schema.safeParse({ name: 1, host: '1.2.3.4' }).error!.issues.map((issue) => issue.message)).toEqual(['Must be text']);
+    }
+  });
+
+  it('should support enums with non-string values', () => {
+    const schema = toZod({ type: 'enum', values: [1, 2] });
+    expect(schema.safeParse(1).success).toBe(true);
+    expect(schema.safeParse(3).success).toBe(false);
+  });
+
+  it('should throw a ZontaxMergeError for validations the type does not support', () => {
+    expect(() => toZod({ type: 'boolean', validations: { email: true } })).toThrow(ZontaxMergeError);
+    expect(() => toZod({ type: 'boolean', validations: { email: true } })).toThrow(
+      "Validation 'email' is not supported on type 'boolean' at path ''."
+    );
+  });
+});
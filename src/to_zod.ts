@@ -0,0 +1,227 @@
+import type { ZodTypeAny, z as Zod3Namespace } from "zod";
+import type { ZodType as Zod4Type, z as Zod4Namespace } from "zod/v4";
+import { ZontaxMergeError } from "./errors";
+import type { ZontaxDefinition, ZontaxMessage } from "./index";
+
+export interface ToZodOptions {
+  /** Target Zod major version. Default: "4" */
+  zodVersion?: "3" | "4";
+  /**
+   * The `z` namespace to build with. Defaults to `zod/v4` for Zod 4 and
+   * `zod/v3` (or `zod` on older installs) for Zod 3.
+   */
+  z?: typeof Zod3Namespace | typeof Zod4Namespace;
+  /** Named definitions that `ref` nodes point to */
+  definitions?: Record<string, ZontaxDefinition>;
+}
+
+const PRIMITIVE_TYPES = [
+  "string",
+  "number",
+  "boolean",
+  "date",
+  "bigint",
+  "symbol",
+  "null",
+  "undefined",
+  "void",
+  "any",
+  "unknown",
+  "never",
+];
+
+function loadZod(version: "3" | "4"): any {
+  const candidates = version === "3" ? ["zod/v3", "zod"] : ["zod/v4"];
+  for (const candidate of candidates) {
+    try {
+      return require(candidate).z;
+    } catch {
+      // Try the next entry point
+    }
+  }
+  throw new ZontaxMergeError(
+    `Zod ${version} is not available. Install zod >= 3.25 or pass the 'z' namespace explicitly.`,
+    { code: "ZOD_UNAVAILABLE" },
+  );
+}
+
+interface BuildContext {
+  z: any;
+  zodVersion: string;
+  definitions: Record<string, ZontaxDefinition>;
+  /** Schemas built for named definitions, so every ref to a name shares one schema */
+  refs: Map<string, any>;
+  resolving: string[];
+  /** Enclosing objects, innermost last, for Z.self() to refer back to */
+  objects: { schema?: any }[];
+}
+
+function unsupported(message: string, path: string[]): ZontaxMergeError {
+  return new ZontaxMergeError(message, { code: "UNSUPPORTED_CONVERSION", path });
+}
+
+const TRANSFORMS = ["trim", "toLowerCase", "toUpperCase"];
+
+/** The error parameter for a custom message, as an argument list */
+function errorParams(message: ZontaxMessage | undefined, zodVersion: string): unknown[] {
+  if (!message) return [];
+  return [zodVersion === "3" ? { message: message.message } : { error: message.message }];
+}
+
+function applyValidation(
+  schema: any,
+  key: string,
+  value: any,
+  message: ZontaxMessage | undefined,
+  type: string,
+  path: string[],
+  zodVersion: string,
+): any {
+  let method = key;
+  let args: unknown[] = value === true ? [] : [value];
+  if (key === "regex") {
+    args = [new RegExp(value.pattern, value.flags)];
+  } else if (key === "ip" && zodVersion === "4") {
+    if (value === true) {
+      throw unsupported(
+        `Zod 4 has no version-independent IP check at path '${path.join(".")}'. Use '.ipv4()' or '.ipv6()'.`,
+        path,
+      );
+    }
+    method = `ip${value.version}`;
+    args = [];
+  } else if (key === "ip" && message) {
+    // Zod 3 takes the version and the message in one options object
+    return schema.ip({ ...(value === true ? {} : value), message: message.message });
+  }
+  if (typeof schema[method] !== "function") {
+    throw unsupported(
+      `Validation '${key}' is not supported on type '${type}' at path '${path.join(".")}'.`,
+      path,
+    );
+  }
+  return schema[method](...args, ...errorParams(message, zodVersion));
+}
+
+function build(def: any, ctx: BuildContext, path: string[]): any {
+  if (!def || typeof def.type !== "string") {
+    throw unsupported(`Invalid definition at path '${path.join(".")}'.`, path);
+  }
+  const { z, zodVersion } = ctx;
+  const params = errorParams(def.typeMessage, zodVersion);
+
+  let schema: any;
+  if (def.type === "object") {
+    const self: { schema?: any } = {};
+    ctx.objects.push(self);
+    const shape: Record<string, any> = {};
+    for (const key in def.fields || {}) {
+      shape[key] = build(def.fields[key], ctx, [...path, key]);
+    }
+    schema = z.object(shape, ...params);
+    if (def.unknownKeys) {
+      schema = schema[def.unknownKeys]();
+    }
+    if (def.catchall) {
+      schema = schema.catchall(build(def.catchall, ctx, path));
+    }
+    ctx.objects.pop();
+    self.schema = schema;
+  } else if (def.type === "array") {
+    schema = z.array(build(def.of, ctx, [...path, "[]"]), ...params);
+  } else if (def.type === "record") {
+    schema = z.record(build(def.keySchema, ctx, path), build(def.valueSchema, ctx, path), ...params);
+  } else if (def.type === "tuple") {
+    schema = z.tuple((def.items || []).map((item: any, i: number) => build(item, ctx, [...path, String(i)])), ...params);
+  } else if (def.type === "union") {
+    schema = z.union((def.options || []).map((option: any) => build(option, ctx, path)), ...params);
+  } else if (def.type === "discriminatedUnion") {
+    schema = z.discriminatedUnion(
+      def.discriminator,
+      (def.options || []).map((option: any) => build(option, ctx, path)),
+      ...params,
+    );
+  } else if (def.type === "intersection") {
+    schema = z.intersection(build(def.left, ctx, path), build(def.right, ctx, path));
+  } else if (def.type === "ref") {
+    schema = buildRef(def.name, ctx, path);
+  } else if (def.type === "lazy") {
+    // Built on first use, when the named schema exists even if this ref is part of it
+    schema = z.lazy(() => buildRef(def.name, ctx, path));
+  } else if (def.type === "self") {
+    const self = ctx.objects[ctx.objects.length - 1];
+    if (!self) throw unsupported(`'self' at path '${path.join(".")}' is not inside an object.`, path);
+    schema = z.lazy(() => self.schema);
+  } else if (def.type === "enum") {
+    const values = Array.isArray(def.values) ? def.values : [def.values];
+    // z.enum only accepts strings, other values become a union of literals
+    schema = values.every((v: unknown) => typeof v === "string")
+      ? z.enum(values, ...params)
+      : z.union(values.map((v: unknown) => z.literal(v)), ...params);
+  } else if (def.type === "literal") {
+    schema = z.literal(def.value, ...params);
+  } else if (PRIMITIVE_TYPES.includes(def.type)) {
+    schema = z[def.type](...params);
+  } else {
+    throw unsupported(`Cannot build a Zod schema for type '${def.type}' at path '${path.join(".")}'.`, path);
+  }
+
+  if (def.validations) {
+    const keys = Object.keys(def.validations);
+    // Transforms first, like the generated schema string
+    const ordered = [
+      ...keys.filter((key) => TRANSFORMS.includes(key)),
+      ...keys.filter((key) => !TRANSFORMS.includes(key)),
+    ];
+    for (const key of ordered) {
+      const value = def.validations[key];
+      schema = applyValidation(schema, key, value, def.messages?.[key], def.type, path, zodVersion);
+    }
+  }
+  if (def.description) {
+    schema = schema.describe(def.description);
+  }
+  if (def.defaultValue !== undefined) {
+    schema = schema.default(def.defaultValue);
+  }
+  if (def.nullable) {
+    schema = schema.nullable();
+  }
+  if (def.optional) {
+    schema = schema.optional();
+  }
+  return schema;
+}
+
+function buildRef(name: string, ctx: BuildContext, path: string[]): any {
+  if (ctx.refs.has(name)) return ctx.refs.get(name);
+  if (ctx.resolving.includes(name)) {
+    throw new ZontaxMergeError(`Reference cycle at path '${path.join(".")}': ${[...ctx.resolving, name].join(" -> ")}.`, {
+      code: "REF_CYCLE",
+      path,
+    });
+  }
+  const target = ctx.definitions[name];
+  if (!target) {
+    throw new ZontaxMergeError(`Unresolved reference '${name}' at path '${path.join(".")}'.`, { code: "UNRESOLVED_REF", path });
+  }
+  ctx.resolving.push(name);
+  const schema = build(target, ctx, path);
+  ctx.resolving.pop();
+  ctx.refs.set(name, schema);
+  return schema;
+}
+
+/**
+ * Build a live Zod schema from a ZontaxDefinition, without generating and
+ * evaluating code. Modifiers are applied in the same order as the schema
+ * string returned by ZontaxParser.parse().
+ */
+export function toZod(definition: ZontaxDefinition, options: ToZodOptions & { zodVersion: "3" }): ZodTypeAny;
+export function toZod(definition: ZontaxDefinition, options?: ToZodOptions): Zod4Type;
+export function toZod(definition: ZontaxDefinition, options: ToZodOptions = {}): ZodTypeAny | Zod4Type {
+  const zodVersion = options.zodVersion || "4";
+  // The builder calls methods both versions share, checked against `zodVersion` where they differ
+  const z: any = options.z || loadZod(zodVersion);
+  return build(definition, { z, zodVersion, definitions: options.definitions || {}, refs: new Map(), resolving: [], objects: [] }, []);
+}
@@ -0,0 +1,130 @@
+import { ZontaxParser, ZontaxMergeError, ZontaxObjectDefinition, toTypeScript } from './index';
+
+describe('toTypeScript', () => {
+  const parser = new ZontaxParser({ mode: 'loose' });
+
+  it('should generate a type alias for an object definition', async () => {
+    const { definition } = await parser.parse(`
+      Z.object({
+        name: Z.string().describe("Full name"),
+        age: Z.number().optional(),
+        nickname: Z.string().nullable(),
+        role: Z.enum(["admin", "user"]).default("user"),
+        kind: Z.literal("person"),
+        tags: Z.array(Z.string()),
+        point: Z.tuple([Z.number(), Z.number()]),
+        scores: Z.record(Z.string(), Z.number()),
+        id: Z.union([Z.string(), Z.number()]),
+        "created-at": Z.date()
+      })
+    `);
+    expect(toTypeScript(definition, { name: 'User' })).toBe(
+      [
+        'export type User = {',
+        '  /** Full name */',
+        '  name: string;',
+        '  age?: number;',
+        '  nickname: string | null;',
+        '  role: "admin" | "user";',
+        '  kind: "person";',
+        '  tags: string[];',
+        '  point: [number, number];',
+        '  scores: Record<string, number>;',
+        '  id: string | number;',
+        '  "created-at": Date;',
+        '};',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should generate an interface with nested objects and JSDoc', async () => {
+    const { definition } = await parser.parse(`
+      Z.object({
+        address: Z.object({
+          city: Z.string().describe("City name")
+        }).describe("Postal address\\nUsed for shipping").optional()
+      }).describe("A customer")
+    `);
+    expect(toTypeScript(definition, { name: 'Customer', declaration: 'interface', export: false })).toBe(
+      [
+        '/** A customer */',
+        'interface Customer {',
+        '  /**',
+        '   * Postal address',
+        '   * Used for shipping',
+        '   */',
+        '  address?: {',
+        '    /** City name */',
+        '    city: string;',
+        '  };',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should generate type aliases for non-object definitions', async () => {
+    const { definition } = await parser.parse('Z.array(Z.enum(["a", "b"]).nullable()).optional()');
+    expect(toTypeScript(definition, { declaration: 'interface' })).toBe(
+      'export type Schema = ("a" | "b" | null)[] | undefined;\n',
+    );
+  });
+
+  it('should add index signatures for passthrough and catchall objects', async () => {
+    const { definition } = await parser.parse(
+      'Z.object({ meta: Z.array(Z.object({ id: Z.string() }).catchall(Z.number())), extra: Z.object({}).passthrough() })',
+    );
+    expect(toTypeScript(definition)).toBe(
+      [
+        'export type Schema = {',
+        '  meta: ({',
+        '    id: string;',
+        '  } & { [key: string]: number })[];',
+        '  extra: {} & { [key: string]: unknown };',
+        '};',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should generate unions for discriminated unions and intersections with &', async () => {
+    const { definition } = await parser.parse(
+      'Z.object({ event: Z.discriminatedUnion("kind", [Z.object({ kind: Z.literal("a"), x: Z.string() }), Z.object({ kind: Z.literal("b") })]), both: Z.array(Z.intersection(Z.union([Z.string(), Z.number()]), Z.string())) })',
+    );
+    expect(toTypeScript(definition)).toBe(
+      [
+        'export type Schema = {',
+        '  event: {',
+        '    kind: "a";',
+        '    x: string;',
+        '  } | {',
+        '    kind: "b";',
+        '  };',
+        '  both: ((string | number) & string)[];',
+        '};',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should refer to named definitions by name', () => {
+    expect(toTypeScript({ type: 'array', of: { type: 'ref', name: 'Address', nullable: true } })).toBe(
+      'export type Schema = (Address | null)[];\n',
+    );
+  });
+
+  it('should name self-references after the root object', () => {
+    const tree: ZontaxObjectDefinition = { type: 'object', fields: { name: { type: 'string' }, children: { type: 'array', of: { type: 'self' } } } };
+    expect(toTypeScript(tree, { name: 'Tree', declaration: 'interface' })).toBe(
+      'export interface Tree {\n  name: string;\n  children: Tree[];\n}\n',
+    );
+    expect(() => toTypeScript({ type: 'object', fields: { tree } })).toThrow(
+      "'self' at path 'tree.children.[]' refers to an object without a type name.",
+    );
+  });
+
+  it('should reject invalid type names', () => {
+    expect(() => toTypeScript({ type: 'string' }, { name: 'my-type' })).toThrow(ZontaxMergeError);
+  });
+});
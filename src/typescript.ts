@@ -0,0 +1,158 @@
+import { ZontaxMergeError } from "./errors";
+import type { ZontaxDefinition } from "./index";
+
+export interface ToTypeScriptOptions {
+  /** Name of the generated type. Default: "Schema" */
+  name?: string;
+  /**
+   * Emit an `interface` or a `type` alias. Interfaces are only possible for
+   * object definitions without unknown keys, anything else becomes a type alias. Default: "type"
+   */
+  declaration?: "type" | "interface";
+  /** Prefix the declaration with `export`. Default: true */
+  export?: boolean;
+}
+
+const PRIMITIVE_TYPES: Record<string, string> = {
+  string: "string",
+  number: "number",
+  boolean: "boolean",
+  date: "Date",
+  bigint: "bigint",
+  symbol: "symbol",
+  null: "null",
+  undefined: "undefined",
+  void: "void",
+  any: "any",
+  unknown: "unknown",
+  never: "never",
+};
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function printKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function printLiteral(value: unknown): string {
+  if (typeof value === "bigint") return `${value}n`;
+  return JSON.stringify(value) ?? "undefined";
+}
+
+function jsDoc(description: string | undefined, indent: string): string {
+  if (description === undefined) return "";
+  const lines = String(description).replace(/\*\//g, "*\\/").split(/\r?\n/);
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join("\n")}\n${indent} */\n`;
+}
+
+/** Unions and intersections need parentheses before `[]` */
+function wrapUnion(type: string, def: any): string {
+  const isUnion =
+    def.nullable ||
+    def.type === "union" ||
+    def.type === "discriminatedUnion" ||
+    (def.type === "enum" && [].concat(def.values).length > 1);
+  const isIntersection =
+    def.type === "intersection" || (def.type === "object" && (def.catchall || def.unknownKeys === "passthrough"));
+  return isUnion || isIntersection ? `(${type})` : type;
+}
+
+/** `self` is the type name Z.self() refers to inside the object, if it has one */
+function printObjectBody(def: any, indent: string, path: string[], self?: string): string {
+  const inner = indent + "  ";
+  const fields = Object.entries(def.fields || {}).map(([key, field]: [string, any]) => {
+    const optional = field.optional ? "?" : "";
+    return `${jsDoc(field.description, inner)}${inner}${printKey(key)}${optional}: ${printType(field, inner, [...path, key], false, self)};`;
+  });
+  return fields.length > 0 ? `{\n${fields.join("\n")}\n${indent}}` : "{}";
+}
+
+/**
+ * `self` is what Z.self() refers to at this point, `name` the type name of `def`
+ * itself when it is an object that can be referred to.
+ */
+function printType(def: any, indent: string, path: string[], includeOptional = true, self?: string, name?: string): string {
+  if (!def || typeof def.type !== "string") {
+    throw new ZontaxMergeError(`Invalid definition at path '${path.join(".")}'.`, {
+      code: "UNSUPPORTED_CONVERSION",
+      path,
+    });
+  }
+
+  let type: string;
+  if (def.type === "object") {
+    type = printObjectBody(def, indent, path, name);
+    // Unknown keys are kept by passthrough() and typed by catchall()
+    if (def.catchall) {
+      type += ` & { [key: string]: ${printType(def.catchall, indent, path, true, name)} }`;
+    } else if (def.unknownKeys === "passthrough") {
+      type += " & { [key: string]: unknown }";
+    }
+  } else if (def.type === "array") {
+    type = `${wrapUnion(printType(def.of, indent, [...path, "[]"], true, self), def.of)}[]`;
+  } else if (def.type === "record") {
+    type = `Record<${printType(def.keySchema, indent, path, true, self)}, ${printType(def.valueSchema, indent, path, true, self)}>`;
+  } else if (def.type === "tuple") {
+    const items = (def.items || []).map((item: any, i: number) => printType(item, indent, [...path, String(i)], true, self));
+    type = `[${items.join(", ")}]`;
+  } else if (def.type === "union" || def.type === "discriminatedUnion") {
+    type = (def.options || []).map((option: any) => printType(option, indent, path, true, self)).join(" | ") || "never";
+  } else if (def.type === "intersection") {
+    const members = [def.left, def.right].map((member: any) => {
+      const printed = printType(member, indent, path, true, self);
+      return member?.type === "intersection" && !member.nullable ? printed : wrapUnion(printed, member);
+    });
+    type = members.join(" & ");
+  } else if (def.type === "self") {
+    if (!self) {
+      throw new ZontaxMergeError(
+        `'self' at path '${path.join(".")}' refers to an object without a type name. Use Z.lazy() with a named definition instead.`,
+        { code: "UNSUPPORTED_CONVERSION", path },
+      );
+    }
+    type = self;
+  } else if ((def.type === "ref" || def.type === "lazy") && IDENTIFIER.test(def.name)) {
+    // Named definitions are expected to be declared under their own name
+    type = def.name;
+  } else if (def.type === "enum") {
+    const values = Array.isArray(def.values) ? def.values : [def.values];
+    type = values.map(printLiteral).join(" | ") || "never";
+  } else if (def.type === "literal") {
+    type = printLiteral(def.value);
+  } else if (PRIMITIVE_TYPES[def.type]) {
+    type = PRIMITIVE_TYPES[def.type];
+  } else {
+    throw new ZontaxMergeError(`Type '${def.type}' at path '${path.join(".")}' has no TypeScript equivalent.`, {
+      code: "UNSUPPORTED_CONVERSION",
+      path,
+    });
+  }
+
+  if (def.nullable) type += " | null";
+  // Object fields use `?` instead
+  if (def.optional && includeOptional) type += " | undefined";
+  return type;
+}
+
+/**
+ * Generate a TypeScript declaration for the data a definition accepts, matching
+ * the output type of the generated Zod schema. Optional fields become `?`,
+ * nullable types `| null` and descriptions JSDoc comments.
+ */
+export function toTypeScript(definition: ZontaxDefinition, options: ToTypeScriptOptions = {}): string {
+  const name = options.name || "Schema";
+  if (!IDENTIFIER.test(name)) {
+    throw new ZontaxMergeError(`Invalid type name '${name}'.`, { code: "INVALID_INPUT" });
+  }
+  const def: any = definition;
+  const prefix = `${jsDoc(def.description, "")}${options.export === false ? "" : "export "}`;
+
+  const hasIndexSignature = def.catchall || def.unknownKeys === "passthrough";
+  if (options.declaration === "interface" && def.type === "object" && !def.nullable && !def.optional && !hasIndexSignature) {
+    return `${prefix}interface ${name} ${printObjectBody(def, "", [], name)}\n`;
+  }
+  // Z.self() in the root object can only use the type name if it means exactly that object
+  const selfName = def.nullable || def.optional ? undefined : name;
+  return `${prefix}type ${name} = ${printType(def, "", [], true, undefined, selfName)};\n`;
+}
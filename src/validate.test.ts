@@ -0,0 +1,131 @@
+import { ZontaxParser, ZontaxMergeError, validate } from './index';
+import { z } from 'zod/v4';
+
+describe('validate', () => {
+  const parser = new ZontaxParser({ mode: 'loose' });
+
+  /** Sources paired with values that pass and fail their validations */
+  const cases: [string, unknown[]][] = [
+    ['Z.string()', ['a', 1, null, undefined, new Date(0)]],
+    ['Z.string().min(3).max(5)', ['abcd', 'a', 'abcdef', '']],
+    ['Z.string().length(2)', ['ab', 'a', 'abc']],
+    ['Z.string().email()', ['ada@example.com', 'ada', 1]],
+    ['Z.string().email().min(20)', ['ada@example.com', 'ada', 'a-long-address@example.com']],
+    ['Z.string().url()', ['https://example.com', 'example']],
+    ['Z.string().uuid()', ['123e4567-e89b-12d3-a456-426614174000', 'x']],
+    ['Z.string().cuid().cuid2().ulid().nanoid()', ['cjld2cjxh0000qzrmn831i7rn', '01ARZ3NDEKTSV4RRFFQ69G5FAV', '!']],
+    ['Z.string().emoji()', ['😀', 'a']],
+    ['Z.string().ipv4()', ['127.0.0.1', '::1', '256.0.0.1']],
+    ['Z.string().ipv6()', ['::1', '2001:db8::1', '127.0.0.1']],
+    ['Z.string().regex(/^[a-z]+$/i).startsWith("a").endsWith("z").includes("m")', ['amz', 'Amz', 'bmz', 'amy', 'az', '1']],
+    ['Z.string().trim().toLowerCase().min(2)', ['  AB  ', ' a ', 'Abc']],
+    ['Z.string().toUpperCase().startsWith("A")', ['abc', 'bcd']],
+    ['Z.string().min(3, "Too short").email({ message: "Bad email" })', ['a', 'ada@example.com']],
+    ['Z.string("Must be text")', [1]],
+    ['Z.number()', [1, 1.5, '1', NaN, Infinity, -Infinity]],
+    ['Z.number().int().min(5)', [5, 1.5, 3, 'x']],
+    ['Z.number().int("Whole numbers only").min(5)', [1.5, 3]],
+    ['Z.number().gt(1).lt(10).multipleOf(0.1)', [0.3, 1, 10, 1.25, 5]],
+    ['Z.number().positive()', [1, 0, -1]],
+    ['Z.number().negative()', [-1, 0]],
+    ['Z.number().nonnegative().nonpositive()', [0, 1, -1]],
+    ['Z.number().finite()', [1, Infinity]],
+    ['Z.bigint().min(10n).multipleOf(5n)', [BigInt(10), BigInt(5), BigInt(12), 10]],
+    ['Z.bigint().positive()', [BigInt(1), BigInt(0)]],
+    ['Z.boolean()', [true, 'true']],
+    ['Z.date()', [new Date(0), new Date('x'), '2020-01-01']],
+    ['Z.null()', [null, undefined]],
+    ['Z.undefined()', [undefined, null]],
+    ['Z.void()', [undefined, 0]],
+    ['Z.any()', [undefined, { a: 1 }]],
+    ['Z.unknown()', [null]],
+    ['Z.never()', [1, undefined]],
+    ['Z.string().optional()', [undefined, 'a', null]],
+    ['Z.string().nullable()', [null, undefined]],
+    ['Z.string().default("x")', [undefined, 'a', null]],
+    ['Z.string().nullable().default("x").optional()', [undefined, null, 1]],
+    ['Z.enum(["a", "b"])', ['a', 'c', 1]],
+    ['Z.enum(["a"], "Pick a")', ['b']],
+    ['Z.literal("a")', ['a', 'b']],
+    ['Z.literal(3)', [3, 4]],
+    ['Z.array(Z.string().min(2)).min(1).max(2)', [['ab'], [], ['a', 'b', 'c'], 'x', [1]]],
+    ['Z.array(Z.number()).length(2)', [[1, 2], [1]]],
+    ['Z.tuple([Z.string(), Z.number().optional()])', [['a'], ['a', 1], ['a', 'b'], [1], ['a', 1, 2], 'x']],
+    ['Z.record(Z.string(), Z.number())', [{ a: 1 }, { a: 'x' }, [], null]],
+    ['Z.record(Z.string().min(2), Z.number())', [{ ab: 1 }, { a: 1 }]],
+    ['Z.record(Z.enum(["a", "b"]), Z.number())', [{ a: 1, b: 2 }, { a: 1 }, { a: 1, b: 2, c: 3 }]],
+    ['Z.union([Z.string(), Z.number().min(3)])', ['a', 5, 1, true]],
+    [
+      'Z.discriminatedUnion("kind", [Z.object({ kind: Z.literal("cat"), lives: Z.number() }), Z.object({ kind: Z.literal("dog") })])',
+      [{ kind: 'cat', lives: 9 }, { kind: 'dog', extra: 1 }, { kind: 'cat' }, { kind: 'fish' }, 'cat'],
+    ],
+    [
+      'Z.intersection(Z.object({ a: Z.string() }), Z.object({ b: Z.number() }))',
+      [{ a: 'x', b: 1 }, { a: 'x' }, { a: 'x', b: 1, c: 2 }],
+    ],
+    [
+      'Z.object({ name: Z.string(), age: Z.number().optional(), role: Z.string().default("user"), tags: Z.array(Z.string()) })',
+      [{ name: 'a', tags: [] }, { name: 'a', tags: [], extra: 1 }, {}, { name: 1, age: 'x', tags: [1] }, [], null],
+    ],
+    ['Z.object({ a: Z.string() }).strict()', [{ a: 'x' }, { a: 'x', b: 1 }, { b: 1, c: 2 }]],
+    ['Z.object({ a: Z.string() }).passthrough()', [{ a: 'x', b: 1 }]],
+    ['Z.object({ a: Z.string() }).catchall(Z.number())', [{ a: 'x', b: 1 }, { a: 'x', b: 'y' }]],
+    ['Z.object({ nested: Z.object({ deep: Z.array(Z.object({ id: Z.string().uuid() })) }) })', [{ nested: { deep: [{ id: 'x' }] } }]],
+    ['Z.object({ name: Z.string(), children: Z.array(Z.self()) })', [{ name: 'a', children: [{ name: 'b', children: [] }] }, { name: 'a', children: [{ name: 1, children: [] }] }]],
+  ];
+
+  const issueSummary = (issues: readonly any[]) => issues.map(({ code, path, message }) => ({ code, path, message }));
+
+  describe('conformance with the generated Zod 4 schema', () => {
+    for (const [source, values] of cases) {
+      it(source, async () => {
+        const { schema, definition } = await parser.parse(source);
+        const zodSchema = new Function('z', `return ${schema}`)(z);
+        for (const value of values) {
+          const expected = zodSchema.safeParse(value);
+          const actual = validate(definition, value);
+          expect({ value, success: actual.success }).toEqual({ value, success: expected.success });
+          if (actual.success && expected.success) {
+            expect(actual.data).toEqual(expected.data);
+          } else if (!actual.success && !expected.success) {
+            expect({ value, issues: issueSummary(actual.issues) }).toEqual({ value, issues: issueSummary(expected.error.issues) });
+          }
+        }
+      });
+    }
+  });
+
+  it('should return Zod-style issue details', async () => {
+    const { definition } = await parser.parse('Z.object({ name: Z.string().min(3), role: Z.enum(["a", "b"]) }).strict()');
+    expect(validate(definition, { name: 'x', role: 'c', other: true })).toEqual({
+      success: false,
+      issues: [
+        {
+          code: 'too_small',
+          origin: 'string',
+          minimum: 3,
+          inclusive: true,
+          path: ['name'],
+          message: 'Too small: expected string to have >=3 characters',
+        },
+        { code: 'invalid_value', values: ['a', 'b'], path: ['role'], message: 'Invalid option: expected one of "a"|"b"' },
+        { code: 'unrecognized_keys', keys: ['other'], path: [], message: 'Unrecognized key: "other"' },
+      ],
+    });
+  });
+
+  it('should resolve refs from the given definitions', async () => {
+    const refParser = new ZontaxParser({ definitions: { Address: { type: 'object', fields: { city: { type: 'string' } } } } });
+    const { definition } = await refParser.parse('Z.object({ home: Z.ref("Address") })');
+    expect(refParser.validate(definition, { home: { city: 'Oslo' } })).toEqual({ success: true, data: { home: { city: 'Oslo' } } });
+    expect(refParser.validate(definition, { home: {} })).toMatchObject({ success: false, issues: [{ path: ['home', 'city'] }] });
+    expect(() => validate(definition, { home: {} })).toThrow(ZontaxMergeError);
+  });
+
+  it('should accept both IP versions for a version-independent check', () => {
+    const definition = { type: 'string', validations: { ip: true } } as const;
+    expect(validate(definition, '127.0.0.1').success).toBe(true);
+    expect(validate(definition, '::1').success).toBe(true);
+    expect(validate(definition, 'x')).toMatchObject({ success: false, issues: [{ code: 'invalid_format', format: 'ip' }] });
+  });
+});
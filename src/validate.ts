@@ -0,0 +1,579 @@
+import { ZontaxMergeError } from "./errors";
+import type { ZontaxDefinition, ZontaxMessage } from "./index";
+import { getZodEmitter } from "./zod_emitter";
+
+export type ZontaxIssueCode =
+  | "invalid_type"
+  | "too_small"
+  | "too_big"
+  | "invalid_format"
+  | "not_multiple_of"
+  | "unrecognized_keys"
+  | "invalid_union"
+  | "invalid_key"
+  | "invalid_value"
+  | "custom";
+
+/** A validation failure, shaped like a Zod 4 issue */
+export interface ZontaxIssue {
+  code: ZontaxIssueCode;
+  /** Location in the validated value; array and tuple indexes are numbers */
+  path: (string | number)[];
+  message: string;
+  /** `invalid_type`: the expected type, e.g. `string` or `int` */
+  expected?: string;
+  /** `too_small`, `too_big`, `invalid_format`, `not_multiple_of`: the kind of value checked */
+  origin?: string;
+  minimum?: number | bigint;
+  maximum?: number | bigint;
+  inclusive?: boolean;
+  /** Set for `length` checks */
+  exact?: boolean;
+  /** `invalid_format`: e.g. `email`, `regex` or `starts_with` */
+  format?: string;
+  pattern?: string;
+  prefix?: string;
+  suffix?: string;
+  includes?: string;
+  divisor?: number | bigint;
+  /** `unrecognized_keys` */
+  keys?: string[];
+  /** `invalid_value`: the accepted values */
+  values?: unknown[];
+  /** `invalid_union`: the issues of each option, with paths relative to the union */
+  errors?: ZontaxIssue[][];
+  /** `invalid_key`: the issues of the record key */
+  issues?: ZontaxIssue[];
+  note?: string;
+}
+
+export interface ValidateOptions {
+  /** Named definitions that `ref` and `lazy` nodes point to */
+  definitions?: Record<string, ZontaxDefinition>;
+}
+
+export type ZontaxValidationResult =
+  | { success: true; data: unknown }
+  | { success: false; issues: ZontaxIssue[] };
+
+interface ValidationContext {
+  definitions: Record<string, ZontaxDefinition>;
+  /** Enclosing object definitions, innermost last, for Z.self() to refer back to */
+  objects: any[];
+}
+
+type Path = (string | number)[];
+
+const TRANSFORMS = ["trim", "toLowerCase", "toUpperCase"];
+
+/** Patterns of Zod 4's string formats */
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  email: /^(?!\.)(?!.*\.\.)([A-Za-z0-9_'+\-.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9-]*\.)+[A-Za-z]{2,}$/,
+  uuid: /^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000)$/,
+  cuid: /^[cC][^\s-]{8,}$/,
+  cuid2: /^[0-9a-z]+$/,
+  ulid: /^[0-9A-HJKMNP-TV-Za-hjkmnp-tv-z]{26}$/,
+  nanoid: /^[a-zA-Z0-9_-]{21}$/,
+  emoji: /^(\p{Extended_Pictographic}|\p{Emoji_Component})+$/u,
+  ipv4: /^(?:(?:25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9][0-9]|[0-9])\.){3}(?:25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9][0-9]|[0-9])$/,
+};
+
+const FORMAT_MESSAGES: Record<string, string> = {
+  email: "Invalid email address",
+  url: "Invalid URL",
+  uuid: "Invalid UUID",
+  cuid: "Invalid cuid",
+  cuid2: "Invalid cuid2",
+  ulid: "Invalid ULID",
+  nanoid: "Invalid nanoid",
+  emoji: "Invalid emoji",
+  ip: "Invalid IP address",
+  ipv4: "Invalid IPv4 address",
+  ipv6: "Invalid IPv6 address",
+};
+
+/** The type name Zod reports as received */
+function receivedType(value: unknown): string {
+  if (typeof value === "number") return Number.isNaN(value) ? "NaN" : "number";
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  if (typeof value === "object" && Object.getPrototypeOf(value) !== Object.prototype && value.constructor) {
+    return value.constructor.name;
+  }
+  return typeof value;
+}
+
+function printValue(value: unknown): string {
+  if (typeof value === "bigint") return `${value}n`;
+  return JSON.stringify(value) ?? String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function clone(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(clone);
+  if (value instanceof Date) return new Date(value.getTime());
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)]));
+  }
+  return value;
+}
+
+/** `value % step` without floating point noise, as Zod computes it */
+function floatSafeRemainder(value: number, step: number): number {
+  const decimals = (n: number) => (n.toString().split(".")[1] || "").length;
+  const count = Math.max(decimals(value), decimals(step));
+  const valueInt = Number.parseInt(value.toFixed(count).replace(".", ""));
+  const stepInt = Number.parseInt(step.toFixed(count).replace(".", ""));
+  return (valueInt % stepInt) / 10 ** count;
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Zod 4 leaves IPv6 addresses to the URL parser */
+function isValidIpv6(value: string): boolean {
+  try {
+    new URL(`http://[${value}]`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function unrecognizedKeys(keys: string[], path: Path): ZontaxIssue {
+  const list = keys.map((key) => JSON.stringify(key)).join(", ");
+  return { code: "unrecognized_keys", keys, path, message: `Unrecognized key${keys.length > 1 ? "s" : ""}: ${list}` };
+}
+
+/** Intersections merge the outputs of both sides, like Zod does */
+function mergeValues(a: unknown, b: unknown): { valid: true; data: unknown } | { valid: false } {
+  if (a === b) return { valid: true, data: a };
+  if (a instanceof Date && b instanceof Date && a.getTime() === b.getTime()) return { valid: true, data: a };
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const data: Record<string, unknown> = { ...a, ...b };
+    for (const key of Object.keys(a).filter((key) => key in b)) {
+      const merged = mergeValues(a[key], b[key]);
+      if (!merged.valid) return merged;
+      data[key] = merged.data;
+    }
+    return { valid: true, data };
+  }
+  if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+    const data: unknown[] = [];
+    for (let i = 0; i < a.length; i++) {
+      const merged = mergeValues(a[i], b[i]);
+      if (!merged.valid) return merged;
+      data.push(merged.data);
+    }
+    return { valid: true, data };
+  }
+  return { valid: false };
+}
+
+class DefinitionValidator {
+  constructor(private ctx: ValidationContext) {}
+
+  /** Validate `input` against `def`, pushing issues, and return the parsed value */
+  run(def: any, input: unknown, path: Path, issues: ZontaxIssue[]): unknown {
+    if (!def || typeof def.type !== "string") {
+      throw new ZontaxMergeError(`Invalid definition at path '${path.join(".")}'.`, {
+        code: "INVALID_DEFINITION",
+        path: path.map(String),
+      });
+    }
+    // The generated chain is `<type>.default(...).nullable().optional()`
+    if (input === undefined && def.optional && def.defaultValue === undefined) return undefined;
+    if (input === null && def.nullable) return null;
+    if (input === undefined && def.defaultValue !== undefined) return clone(def.defaultValue);
+    return this.runType(def, input, path, issues);
+  }
+
+  private typeIssue(def: any, expected: string, input: unknown, path: Path): ZontaxIssue {
+    return {
+      code: "invalid_type",
+      expected,
+      path,
+      message: def.typeMessage?.message ?? `Invalid input: expected ${expected}, received ${receivedType(input)}`,
+    };
+  }
+
+  private runType(def: any, input: unknown, path: Path, issues: ZontaxIssue[]): unknown {
+    switch (def.type) {
+      case "object":
+        return this.runObject(def, input, path, issues);
+      case "array":
+        return this.runArray(def, input, path, issues);
+      case "tuple":
+        return this.runTuple(def, input, path, issues);
+      case "record":
+        return this.runRecord(def, input, path, issues);
+      case "union":
+        return this.runUnion(def, input, path, issues);
+      case "discriminatedUnion":
+        return this.runDiscriminatedUnion(def, input, path, issues);
+      case "intersection":
+        return this.runIntersection(def, input, path, issues);
+      case "enum":
+      case "literal": {
+        const values: unknown[] = def.type === "enum" ? [].concat(def.values) : [def.value];
+        if (values.includes(input)) return input;
+        const expected =
+          def.type === "enum" ? `one of ${values.map(printValue).join("|")}` : printValue(def.value);
+        issues.push({
+          code: "invalid_value",
+          values,
+          path,
+          message: def.typeMessage?.message ?? `Invalid ${def.type === "enum" ? "option" : "input"}: expected ${expected}`,
+        });
+        return input;
+      }
+      case "ref":
+      case "lazy": {
+        const target = this.ctx.definitions[def.name];
+        if (!target) {
+          throw new ZontaxMergeError(`Unknown definition '${def.name}' at path '${path.join(".")}'.`, {
+            code: "UNRESOLVED_REF",
+            path: path.map(String),
+          });
+        }
+        // Z.self() inside the named definition refers to its own objects
+        return new DefinitionValidator({ ...this.ctx, objects: [] }).run(target, input, path, issues);
+      }
+      case "self": {
+        const object = this.ctx.objects[this.ctx.objects.length - 1];
+        if (!object) {
+          throw new ZontaxMergeError(`'self' at path '${path.join(".")}' is not inside an object.`, {
+            code: "INVALID_DEFINITION",
+            path: path.map(String),
+          });
+        }
+        return this.run(object, input, path, issues);
+      }
+      default:
+        return this.runPrimitive(def, input, path, issues);
+    }
+  }
+
+  private runPrimitive(def: any, input: unknown, path: Path, issues: ZontaxIssue[]): unknown {
+    const type = def.type;
+    let valid: boolean;
+    if (type === "string" || type === "boolean" || type === "bigint" || type === "symbol" || type === "undefined") {
+      valid = typeof input === type;
+    } else if (type === "number") {
+      // Zod 4 numbers are always finite
+      valid = typeof input === "number" && Number.isFinite(input);
+    } else if (type === "date") {
+      valid = input instanceof Date && !Number.isNaN(input.getTime());
+    } else if (type === "null") {
+      valid = input === null;
+    } else if (type === "void") {
+      valid = input === undefined;
+    } else if (type === "any" || type === "unknown") {
+      valid = true;
+    } else if (type === "never") {
+      valid = false;
+    } else {
+      throw new ZontaxMergeError(`Unknown type '${type}' at path '${path.join(".")}'.`, {
+        code: "INVALID_DEFINITION",
+        path: path.map(String),
+      });
+    }
+    if (!valid) {
+      issues.push(this.typeIssue(def, type, input, path));
+      return input;
+    }
+    return this.runChecks(def, input, type, path, issues);
+  }
+
+  /**
+   * Run the validations in the order of the generated Zod 4 chain: a check folded
+   * into the type (`z.email()`, `z.int()`) first, then transforms, then the rest.
+   */
+  private runChecks(def: any, input: any, origin: string, path: Path, issues: ZontaxIssue[]): unknown {
+    const validations: Record<string, any> = def.validations || {};
+    const keys = Object.keys(validations);
+    const folded = ["string", "number"].includes(def.type) ? getZodEmitter("4").primitive(def).folded : undefined;
+    const order = [
+      ...(folded ? [folded] : []),
+      ...keys.filter((key) => key !== folded && TRANSFORMS.includes(key)),
+      ...keys.filter((key) => key !== folded && !TRANSFORMS.includes(key)),
+    ];
+    let value = input;
+    for (const key of order) {
+      if (key === "trim") value = value.trim();
+      else if (key === "toLowerCase") value = value.toLowerCase();
+      else if (key === "toUpperCase") value = value.toUpperCase();
+      else {
+        const issue = this.check(key, validations[key], value, origin);
+        if (!issue) continue;
+        const message: ZontaxMessage | undefined = def.messages?.[key];
+        issues.push({ ...issue, path, message: message?.message ?? issue.message });
+        // A failed integer check stops the other checks, as in Zod
+        if (key === "int") return value;
+      }
+    }
+    return value;
+  }
+
+  private check(key: string, expected: any, value: any, origin: string): Omit<ZontaxIssue, "path"> | undefined {
+    const sized = origin === "string" || origin === "array";
+    const size = sized ? value.length : origin === "date" ? value.getTime() : value;
+    const unit = origin === "string" ? "characters" : "items";
+    const bound = (code: "too_small" | "too_big", limit: any, inclusive: boolean, exact?: boolean): Omit<ZontaxIssue, "path"> => {
+      const comparison = `${code === "too_small" ? ">" : "<"}${inclusive ? "=" : ""}`;
+      const message = sized
+        ? `Too ${code === "too_small" ? "small" : "big"}: expected ${origin} to have ${comparison}${limit} ${unit}`
+        : `Too ${code === "too_small" ? "small" : "big"}: expected ${origin} to be ${comparison}${limit}`;
+      return {
+        code,
+        origin,
+        [code === "too_small" ? "minimum" : "maximum"]: limit,
+        inclusive,
+        ...(exact && { exact }),
+        message,
+      };
+    };
+    const zero = origin === "bigint" ? BigInt(0) : 0;
+    const format = (name: string, extra: Partial<ZontaxIssue> = {}): Omit<ZontaxIssue, "path"> => ({
+      code: "invalid_format",
+      origin: "string",
+      format: name,
+      ...(FORMAT_PATTERNS[name] && { pattern: String(FORMAT_PATTERNS[name]) }),
+      ...extra,
+      message: FORMAT_MESSAGES[name],
+    });
+
+    switch (key) {
+      case "min":
+        return size >= expected ? undefined : bound("too_small", expected, true);
+      case "max":
+        return size <= expected ? undefined : bound("too_big", expected, true);
+      case "length":
+        if (size < expected) return bound("too_small", expected, true, true);
+        return size > expected ? bound("too_big", expected, true, true) : undefined;
+      case "gt":
+        return size > expected ? undefined : bound("too_small", expected, false);
+      case "lt":
+        return size < expected ? undefined : bound("too_big", expected, false);
+      case "positive":
+        return size > zero ? undefined : bound("too_small", zero, false);
+      case "nonnegative":
+        return size >= zero ? undefined : bound("too_small", zero, true);
+      case "negative":
+        return size < zero ? undefined : bound("too_big", zero, false);
+      case "nonpositive":
+        return size <= zero ? undefined : bound("too_big", zero, true);
+      case "int":
+        return Number.isSafeInteger(value)
+          ? undefined
+          : { code: "invalid_type", expected: "int", format: "safeint", message: "Invalid input: expected int, received number" };
+      case "finite":
+        // Non-finite numbers are rejected as the wrong type
+        return undefined;
+      case "multipleOf": {
+        const remainder = typeof value === "bigint" ? value % BigInt(expected) : floatSafeRemainder(value, expected);
+        return remainder == 0
+          ? undefined
+          : { code: "not_multiple_of", origin, divisor: expected, message: `Invalid number: must be a multiple of ${expected}` };
+      }
+      case "regex": {
+        const pattern = new RegExp(expected.pattern, expected.flags);
+        return pattern.test(value)
+          ? undefined
+          : { ...format("regex", { pattern: String(pattern) }), message: `Invalid string: must match pattern ${pattern}` };
+      }
+      case "startsWith":
+        return value.startsWith(expected)
+          ? undefined
+          : { ...format("starts_with", { prefix: expected }), message: `Invalid string: must start with "${expected}"` };
+      case "endsWith":
+        return value.endsWith(expected)
+          ? undefined
+          : { ...format("ends_with", { suffix: expected }), message: `Invalid string: must end with "${expected}"` };
+      case "includes":
+        return value.includes(expected)
+          ? undefined
+          : { ...format("includes", { includes: expected }), message: `Invalid string: must include "${expected}"` };
+      case "url":
+        return isValidUrl(value) ? undefined : format("url");
+      case "ip": {
+        const valid =
+          expected === true
+            ? FORMAT_PATTERNS.ipv4.test(value) || isValidIpv6(value)
+            : expected.version === "v4"
+              ? FORMAT_PATTERNS.ipv4.test(value)
+              : isValidIpv6(value);
+        return valid ? undefined : format(expected === true ? "ip" : `ip${expected.version}`);
+      }
+      default:
+        if (FORMAT_PATTERNS[key]) {
+          return FORMAT_PATTERNS[key].test(value) ? undefined : format(key);
+        }
+        throw new ZontaxMergeError(`Unknown validation '${key}'.`, { code: "INVALID_DEFINITION" });
+    }
+  }
+
+  private runObject(def: any, input: unknown, path: Path, issues: ZontaxIssue[]): unknown {
+    if (!isPlainObject(input)) {
+      issues.push(this.typeIssue(def, "object", input, path));
+      return input;
+    }
+    this.ctx.objects.push(def);
+    try {
+      const fields: Record<string, any> = def.fields || {};
+      const output: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(fields)) {
+        const value = this.run(field, input[key], [...path, key], issues);
+        if (key in input || value !== undefined) output[key] = value;
+      }
+      const unknownKeys = Object.keys(input).filter((key) => !(key in fields));
+      if (def.catchall) {
+        for (const key of unknownKeys) {
+          output[key] = this.run(def.catchall, input[key], [...path, key], issues);
+        }
+      } else if (def.unknownKeys === "strict" && unknownKeys.length > 0) {
+        issues.push(unrecognizedKeys(unknownKeys, path));
+      } else if (def.unknownKeys === "passthrough") {
+        for (const key of unknownKeys) {
+          output[key] = input[key];
+        }
+      }
+      return output;
+    } finally {
+      this.ctx.objects.pop();
+    }
+  }
+
+  private runArray(def: any, input: unknown, path: Path, issues: ZontaxIssue[]): unknown {
+    if (!Array.isArray(input)) {
+      issues.push(this.typeIssue(def, "array", input, path));
+      return input;
+    }
+    const output = input.map((item, i) => this.run(def.of, item, [...path, i], issues));
+    return this.runChecks(def, output, "array", path, issues);
+  }
+
+  private runTuple(def: any, input: unknown, path: Path, issues: ZontaxIssue[]): unknown {
+    if (!Array.isArray(input)) {
+      issues.push(this.typeIssue(def, "tuple", input, path));
+      return input;
+    }
+    const items: any[] = def.items || [];
+    const output: unknown[] = [];
+    items.forEach((item, i) => {
+      const value = this.run(item, input[i], [...path, i], issues);
+      if (i < input.length || value !== undefined) output[i] = value;
+    });
+    if (input.length > items.length) {
+      // Zod 4 words this as an exclusive bound, even though the length itself is allowed
+      issues.push({
+        code: "too_big",
+        origin: "array",
+        maximum: items.length,
+        path,
+        message: `Too big: expected array to have <${items.length} items`,
+      });
+    }
+    return output;
+  }
+
+  private runRecord(def: any, input: unknown, path: Path, issues: ZontaxIssue[]): unknown {
+    if (!isPlainObject(input)) {
+      issues.push(this.typeIssue(def, "record", input, path));
+      return input;
+    }
+    const output: Record<string, unknown> = {};
+    const keySchema = def.keySchema;
+    // Records keyed by an enum or literal need a value for every key, and no other keys
+    if (keySchema?.type === "enum" || keySchema?.type === "literal") {
+      const keys: string[] = keySchema.type === "enum" ? [].concat(keySchema.values) : [keySchema.value];
+      for (const key of keys) {
+        output[key] = this.run(def.valueSchema, input[key], [...path, key], issues);
+      }
+      const unknownKeys = Object.keys(input).filter((key) => !keys.includes(key));
+      if (unknownKeys.length > 0) {
+        issues.push(unrecognizedKeys(unknownKeys, path));
+      }
+      return output;
+    }
+    for (const [key, value] of Object.entries(input)) {
+      const keyIssues: ZontaxIssue[] = [];
+      const parsedKey = this.run(keySchema, key, [], keyIssues);
+      if (keyIssues.length > 0) {
+        issues.push({ code: "invalid_key", origin: "record", issues: keyIssues, path: [...path, key], message: "Invalid key in record" });
+        continue;
+      }
+      output[String(parsedKey)] = this.run(def.valueSchema, value, [...path, key], issues);
+    }
+    return output;
+  }
+
+  private runUnion(def: any, input: unknown, path: Path, issues: ZontaxIssue[]): unknown {
+    const errors: ZontaxIssue[][] = [];
+    for (const option of def.options || []) {
+      const optionIssues: ZontaxIssue[] = [];
+      const value = this.run(option, input, [], optionIssues);
+      if (optionIssues.length === 0) return value;
+      errors.push(optionIssues);
+    }
+    issues.push({ code: "invalid_union", errors, path, message: def.typeMessage?.message ?? "Invalid input" });
+    return input;
+  }
+
+  private runDiscriminatedUnion(def: any, input: unknown, path: Path, issues: ZontaxIssue[]): unknown {
+    if (!isPlainObject(input)) {
+      issues.push(this.typeIssue(def, "object", input, path));
+      return input;
+    }
+    const option = (def.options || []).find(
+      (candidate: any) => candidate.fields?.[def.discriminator]?.value === input[def.discriminator],
+    );
+    if (!option) {
+      issues.push({
+        code: "invalid_union",
+        errors: [],
+        note: "No matching discriminator",
+        path: [...path, def.discriminator],
+        message: def.typeMessage?.message ?? "Invalid input",
+      });
+      return input;
+    }
+    return this.run(option, input, path, issues);
+  }
+
+  private runIntersection(def: any, input: unknown, path: Path, issues: ZontaxIssue[]): unknown {
+    const before = issues.length;
+    const left = this.run(def.left, input, path, issues);
+    const right = this.run(def.right, input, path, issues);
+    if (issues.length > before) return input;
+    const merged = mergeValues(left, right);
+    if (!merged.valid) {
+      // Zod throws here; a custom issue keeps the result usable
+      issues.push({ code: "custom", path, message: "Intersection results could not be merged" });
+      return input;
+    }
+    return merged.data;
+  }
+}
+
+/**
+ * Validate a value against a definition without Zod. Follows the semantics of the
+ * Zod 4 schema generated for the definition: defaults are applied, transforms run,
+ * unknown keys are stripped unless the object is strict or passthrough, and
+ * failures are returned as Zod-style issues.
+ */
+export function validate(definition: ZontaxDefinition, value: unknown, options: ValidateOptions = {}): ZontaxValidationResult {
+  const issues: ZontaxIssue[] = [];
+  const validator = new DefinitionValidator({ definitions: options.definitions || {}, objects: [] });
+  const data = validator.run(definition, value, [], issues);
+  return issues.length > 0 ? { success: false, issues } : { success: true, data };
+}
@@ -0,0 +1,153 @@
+import type { ZontaxDefinition, ZontaxMessage } from "./index";
+
+export interface ZodCompatibilityIssue {
+  path: string[];
+  message: string;
+}
+
+/**
+ * The parts of a generated schema string that are spelled differently in each
+ * Zod major version. Everything else is shared by the generator.
+ */
+export interface ZodEmitter {
+  /** The call that starts a primitive schema, and the validation folded into it, if any */
+  primitive(def: any): { call: string; folded?: string };
+  /** The call that creates an object schema from its printed fields */
+  object(fields: string, unknownKeys?: "strict" | "passthrough", message?: ZontaxMessage): string;
+  /** A chained validation call, or "" when the schema already implies it */
+  validation(key: string, value: any, message?: ZontaxMessage): string;
+  /** The error parameter for a custom message, e.g. `{ message: "Too short" }` */
+  error(message: ZontaxMessage): string;
+  description(text: string): string;
+  /** Why a definition node cannot be expressed in this version, if it can't */
+  incompatibility(def: any, path: string[]): string | undefined;
+}
+
+const TRANSFORMS = ["trim", "toLowerCase", "toUpperCase"];
+
+/** String checks that Zod 4 also offers as top-level schemas, e.g. `z.email()` */
+const STRING_FORMATS = ["email", "url", "uuid", "cuid", "cuid2", "ulid", "nanoid", "emoji", "ip"];
+
+/** JSON.stringify() output, with bigints written as `10n` literals */
+export function stringifyValue(value: any): string {
+  if (typeof value === "bigint") return `${value}n`;
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stringifyValue(item)).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stringifyValue(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function chainedValidation(key: string, value: any, error?: string): string {
+  const args: string[] = [];
+  if (key === "regex") {
+    // RegExp#toString() escapes slashes and line breaks, so the literal is always well-formed
+    args.push(String(new RegExp(value.pattern, value.flags)));
+  } else if (value !== true) {
+    args.push(stringifyValue(value));
+  }
+  if (error) args.push(error);
+  return `.${key}(${args.join(", ")})`;
+}
+
+const zod3: ZodEmitter = {
+  primitive: (def) => ({ call: `z.${def.type}(${def.typeMessage ? zod3.error(def.typeMessage) : ""})` }),
+  object(fields, unknownKeys, message) {
+    const params = message ? `, ${zod3.error(message)}` : "";
+    return `z.object({ ${fields} }${params})${unknownKeys ? `.${unknownKeys}()` : ""}`;
+  },
+  validation(key, value, message) {
+    if (key === "ip" && message) {
+      const version = value === true ? "" : `version: ${JSON.stringify(value.version)}, `;
+      return `.ip({ ${version}message: ${JSON.stringify(message.message)} })`;
+    }
+    if (key === "ip" && value !== true) return `.ip(${JSON.stringify(value)})`;
+    return chainedValidation(key, value, message && zod3.error(message));
+  },
+  error: (message) => `{ message: ${JSON.stringify(message.message)} }`,
+  description: (text) => `.describe(${JSON.stringify(text)})`,
+  incompatibility: () => undefined,
+};
+
+const zod4: ZodEmitter = {
+  primitive(def) {
+    const { type, typeMessage } = def;
+    const validations = def.validations || {};
+    const plain = { call: `z.${type}(${typeMessage ? zod4.error(typeMessage) : ""})` };
+    // The error of a top-level format also replaces the message for the wrong type
+    if (typeMessage) return plain;
+    const keys = Object.keys(validations).filter((key) => !def.messages?.[key]);
+    if (type === "number" && keys.includes("int")) {
+      return { call: "z.int()", folded: "int" };
+    }
+    const formats = Object.keys(validations).filter((key) => STRING_FORMATS.includes(key));
+    // A top-level format checks before any transform runs, and formats don't chain onto each other
+    if (type !== "string" || formats.length !== 1 || !keys.includes(formats[0]) || keys.some((key) => TRANSFORMS.includes(key))) {
+      return plain;
+    }
+    const format = formats[0];
+    if (format === "ip") {
+      const ip = validations.ip;
+      return ip === true ? plain : { call: `z.ip${ip.version}()`, folded: "ip" };
+    }
+    return { call: `z.${format}()`, folded: format };
+  },
+  object(fields, unknownKeys, message) {
+    const params = message ? `, ${zod4.error(message)}` : "";
+    if (unknownKeys === "strict") return `z.strictObject({ ${fields} }${params})`;
+    if (unknownKeys === "passthrough") return `z.looseObject({ ${fields} }${params})`;
+    return `z.object({ ${fields} }${params})`;
+  },
+  validation(key, value, message) {
+    if (key === "ip") {
+      // A version-independent check is reported by incompatibility()
+      return value === true ? "" : `.ip${value.version}(${message ? zod4.error(message) : ""})`;
+    }
+    // Zod 4 numbers are always finite
+    if (key === "finite") return "";
+    return chainedValidation(key, value, message && zod4.error(message));
+  },
+  error: (message) => `{ error: ${JSON.stringify(message.message)} }`,
+  description: (text) => `.meta({ description: ${JSON.stringify(text)} })`,
+  incompatibility(def, path) {
+    if (def.type === "string" && def.validations?.ip === true) {
+      return `Zod 4 has no version-independent IP check at path '${path.join(".")}'. Use '.ipv4()' or '.ipv6()'.`;
+    }
+    return undefined;
+  },
+};
+
+export function getZodEmitter(zodVersion: "3" | "4"): ZodEmitter {
+  return zodVersion === "3" ? zod3 : zod4;
+}
+
+/**
+ * List everything in a definition that the given Zod version cannot express.
+ * An empty list means parsed schema strings and toZod() can target it.
+ */
+export function checkZodCompatibility(definition: ZontaxDefinition, zodVersion: "3" | "4"): ZodCompatibilityIssue[] {
+  const emitter = getZodEmitter(zodVersion);
+  const issues: ZodCompatibilityIssue[] = [];
+  const seen = new WeakSet<object>();
+  const visit = (def: any, path: string[]) => {
+    if (!def || typeof def !== "object" || seen.has(def)) return;
+    seen.add(def);
+    const message = emitter.incompatibility(def, path);
+    if (message) {
+      issues.push({ path, message });
+    }
+    for (const key in def.fields || {}) {
+      visit(def.fields[key], [...path, key]);
+    }
+    visit(def.of, [...path, "[]"]);
+    (def.items || []).forEach((item: any, i: number) => visit(item, [...path, String(i)]));
+    for (const child of [def.keySchema, def.valueSchema, def.catchall, def.left, def.right, ...(def.options || [])]) {
+      visit(child, path);
+    }
+  };
+  visit(definition, []);
+  return issues;
+}